@@ -7,259 +7,113 @@ import { Textarea } from './components/ui/textarea';
 import { Switch } from './components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 import { Alert, AlertDescription } from './components/ui/alert';
-import { Plus, Trash2, Copy, Check, Save, Code, ShoppingCart, Zap, Pencil, Square, CheckSquare } from 'lucide-react';
+import { Plus, Trash2, Copy, Check, Save, Code, ShoppingCart, Zap, Pencil, Square, CheckSquare, GitCompare, Cpu, ShieldCheck, FolderDown, Link2, Wand2 } from 'lucide-react';
 import { Analytics } from "@vercel/analytics/react"
-// ============================================================================
-// TYPE DEFINITIONS
-// ============================================================================
-
-interface LocalizedMessage {
-  key: string;
-  text: string;
-}
-
-interface EntitlementInfoModule {
-  moduleName: string;
-  name: LocalizedMessage;
-  description: LocalizedMessage;
-  shortDescription: LocalizedMessage;
-}
-
-// Currency is now only 'vbucks'
-interface PriceDimension {
-  type: 'vbucks';
-  amount: number;
-}
-
-interface EntitlementDefinition {
-  className: string;
-  parentClass: 'island_entitlement' | 'cosmetic_entitlement' | 'custom';
-  customParent?: string;
-  infoModule: string;
-  icon: string;
-  consequentialToGameplay: boolean;
-  maxCount: number;
-  consumable: boolean;
-  paidRandomItem: boolean;
-  paidArea: boolean;
-}
-
-interface EntitlementOffer {
-  className: string;
-  infoModule: string;
-  icon: string;
-  entitlementType: string;
-  price: PriceDimension;
-}
-
-interface BundleOffer {
-  className: string;
-  name: LocalizedMessage;
-  description: LocalizedMessage;
-  shortDescription: LocalizedMessage;
-  icon: string;
-  offers: Array<{ offerRef: string; quantity: number }>;
-  price: PriceDimension;
-}
-
-interface ProjectData {
-  entitlementInfos: EntitlementInfoModule[];
-  entitlements: EntitlementDefinition[];
-  offers: EntitlementOffer[];
-  bundles: BundleOffer[];
-}
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { ImportReview } from './components/ImportReview';
+import { VerseImportPanel } from './components/VerseImportPanel';
+import { CatalogImportPanel } from './components/CatalogImportPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProblemsPanel } from './components/ProblemsPanel';
+import { DeleteConfirm } from './components/DeleteConfirm';
+import { TextLimitHint } from './components/TextLimitHint';
+import { LocalizationPanel } from './components/LocalizationPanel';
+import { DiffView } from './components/DiffView';
+import { CodegenSettingsPanel } from './components/CodegenSettingsPanel';
+import { TemplateEditor } from './components/TemplateEditor';
+import { PriceInput } from './components/PriceInput';
+import { PricingPanel } from './components/PricingPanel';
+import { CatalogExportBar } from './components/CatalogExportBar';
+import { TexturePanel } from './components/TexturePanel';
+import { IconPicker } from './components/IconPicker';
+import { ParentClassPanel } from './components/ParentClassPanel';
+import { BundleValueSummary } from './components/BundleValueSummary';
+import { LinkedFieldLabel } from './components/LinkedFieldLabel';
+import { EntitlementOfferWizard } from './components/EntitlementOfferWizard';
+import { ListToolbar } from './components/ListToolbar';
+import { TagInput, ItemTags } from './components/TagInput';
+import type { EntitlementInfoModule, EntitlementDefinition, EntitlementOffer, BundleOffer, BundleEntry, ProjectData } from './lib/types';
+import { loadWorkspace, saveWorkspace, createProject, type Workspace } from './lib/storage';
+import { inputClass, labelClass, cardBorder, selectClass, iconButtonClass } from './lib/styles';
+import { validateEntitlement, validatePrice, validateProject, type Diagnostic, type ProjectSection } from './lib/validation';
+import { generateVerseCode, generateVerseFiles } from './lib/verseCodegen';
+import { generateBuyOfferCode, generateConsumeCode, generateOwnershipCode, generateDeviceCode, bindingKey, type DeviceBinding } from './lib/apiCodegen';
+import { createZip } from './lib/zip';
+import { countMissing } from './lib/localization';
+import { planDelete, renameReferences, itemName, type DeletePlan } from './lib/references';
+import { serializeProjectFile, parseProjectFile, checkProjectData, type ProjectImport } from './lib/projectFile';
+import { parseVerseSource } from './lib/verseParser';
+import { downloadFile, toFileName } from './lib/download';
+import { loadExchangeRates, saveExchangeRates } from './lib/pricing';
+import { loadTexturePreviews, saveTexturePreviews } from './lib/textures';
+import { entryKind, wouldCreateCycle } from './lib/bundleContents';
+import { recordChange, undo, redo, emptyHistory } from './lib/history';
+import { BUILTIN_PARENT_CLASSES, entitlementParent, isBuiltinParent } from './lib/parentClasses';
+import { emptyListQuery, queryList, projectTags, hasTag, type ListQuery } from './lib/listQuery';
+import { applyEntitlementDefaults, syncLinkedOffers, setLinked, overrideField, resetOverride } from './lib/offerLinks';
 
 // ============================================================================
-// VALIDATION LOGIC
+// CODE GENERATORS
 // ============================================================================
 
-const validateEntitlement = (ent: EntitlementDefinition): string[] => {
-  const errors: string[] = [];
-  if (!ent.className || !/^[a-z_][a-z0-9_]*$/.test(ent.className)) {
-    errors.push('Class name must be lowercase snake_case');
-  }
-  if (ent.maxCount < 1) {
-    errors.push('MaxCount must be at least 1');
-  }
-  if (!ent.consumable && ent.maxCount > 1) {
-    errors.push('Non-consumable entitlements should have MaxCount = 1');
-  }
-  return errors;
-};
-
-// New price validation function
-const validatePrice = (amount: number): string[] => {
-  const errors: string[] = [];
-  if (amount < 50 || amount > 5000) {
-    errors.push('Price must be between 50 and 5000 V-Bucks');
-  }
-  if (amount % 50 !== 0) {
-    errors.push('Price must be a multiple of 50');
-  }
-  return errors;
-};
+const MissingTranslations = ({ count }: { count: number }) => count > 0
+  ? <span className="text-amber-400 text-xs uppercase tracking-wide block">{count} missing translation{count === 1 ? '' : 's'}</span>
+  : null;
 
 // ============================================================================
-// CODE GENERATORS
+// MAIN APP COMPONENT
 // ============================================================================
 
-const generateVerseCode = (data: ProjectData): string => {
-  let code = '// Generated UEFN In-Island Transactions Code - VERSE TRANSACTIONS by @encryptedasset\n';
-  code += '// Do not modify manually - regenerate from configurator\n\n';
-  
-  if (data.entitlementInfos.length > 0) {
-    code += 'EntitlementInfo<public> := module:\n\n';
-    data.entitlementInfos.forEach(info => {
-      code += `    ${info.moduleName}<public> := module:\n\n`;
-      code += `        Name<public><localizes>:message = "${info.name.text}"\n\n`;
-      code += `        Description<public><localizes>:message =\n`;
-      code += `            "${info.description.text}"\n\n`;
-      code += `        ShortDescription<public><localizes>:message =\n`;
-      code += `            "${info.shortDescription.text}"\n\n`;
-    });
-  }
-  
-  if (data.entitlements.length > 0) {
-    code += 'Entitlements<public> := module:\n\n';
-    code += '    using { EntitlementInfo }\n\n';
-    
-    const parentClasses = new Set(data.entitlements.map(e => e.parentClass));
-    parentClasses.forEach(parent => {
-      if (parent !== 'custom') {
-        code += `    ${parent}<public> :=\n`;
-        code += `        class<abstract><castable>(entitlement){}\n\n`;
-      }
-    });
-    
-    data.entitlements.forEach(ent => {
-      const parent = ent.parentClass === 'custom' ? ent.customParent : ent.parentClass;
-      code += `    ${ent.className}<public> :=\n`;
-      code += `        class<concrete>(${parent}):\n\n`;
-      code += `            var Name<override>:message = EntitlementInfo.${ent.infoModule}.Name\n`;
-      code += `            var Description<override>:message = EntitlementInfo.${ent.infoModule}.Description\n`;
-      code += `            var ShortDescription<override>:message = EntitlementInfo.${ent.infoModule}.ShortDescription\n`;
-      code += `            var Icon<override>:texture = ${ent.icon}\n`;
-      code += `            ConsequentialToGameplay<override>:logic = ${ent.consequentialToGameplay ? 'true' : 'false'}\n`;
-      code += `            MaxCount<override>:int = ${ent.maxCount}\n`;
-      code += `            Consumable<override>:logic = ${ent.consumable ? 'true' : 'false'}\n\n`;
-    });
-  }
-  
-  if (data.offers.length > 0) {
-    code += 'ExampleOffers<public> := module:\n\n';
-    code += '    using { EntitlementInfo }\n\n';
-    data.offers.forEach(offer => {
-      code += `    ${offer.className}<public> := class(entitlement_offer):\n\n`;
-      code += `        var Name<override>:message             = EntitlementInfo.${offer.infoModule}.Name\n`;
-      code += `        var Description<override>:message      = EntitlementInfo.${offer.infoModule}.Description\n`;
-      code += `        var ShortDescription<override>:message = EntitlementInfo.${offer.infoModule}.ShortDescription\n`;
-      code += `        var Icon<override>:texture             = ${offer.icon}\n`;
-      code += `        EntitlementType<override>:concrete_subtype(entitlement) = Entitlements.${offer.entitlementType}\n`;
-      // Price is always V-Bucks now
-      code += `        Price<override>:price_dimension = MakePriceVBucks(${offer.price.amount.toFixed(1)})\n\n`;
-    });
-  }
-  
-  if (data.bundles.length > 0) {
-    code += 'BundleOffers<public> := module:\n\n';
-    data.bundles.forEach(bundle => {
-      code += `    ${bundle.className}<public> := class(bundle_offer):\n\n`;
-      code += `        var Name<override>:message = "${bundle.name.text}"\n`;
-      code += `        var Description<override>:message = "${bundle.description.text}"\n`;
-      code += `        var ShortDescription<override>:message = "${bundle.shortDescription.text}"\n`;
-      code += `        var Icon<override>:texture = ${bundle.icon}\n`;
-      const offersArray = bundle.offers.map(o => `(ExampleOffers.${o.offerRef}, ${o.quantity})`).join(', ');
-      code += `        Offers<override>:[]tuple(offer, int) = array{${offersArray}}\n`;
-      // Price is always V-Bucks now
-      code += `        Price<override>:price_dimension = MakePriceVBucks(${bundle.price.amount.toFixed(1)})\n\n`;
-    });
-  }
-  return code;
-};
-
-// UPDATED: Matches user requested pattern for BuyOffer
-const generateBuyOfferCode = (data: ProjectData, selectedItems: Set<string>): string => {
-  let code = '// BuyOffer API Usage Examples - VERSE TRANSACTIONS\n';
-  code += '// Suspends execution until purchase response\n\n';
-  
-  // Filter offers based on selection
-  const activeOffers = data.offers.filter(o => selectedItems.has(o.className));
-  const activeBundles = data.bundles.filter(b => selectedItems.has(b.className));
-
-  if (activeOffers.length > 0) {
-    code += '# Individual Offers\n\n';
-    activeOffers.forEach(offer => {
-      code += `# Purchase ${offer.className} (${offer.price.amount} V-Bucks). only works in a <suspends> function.\n`;
-      code += `    Result := BuyOffer(Player, ExampleOffers.${offer.className})\n`;
-      code += `    if (Result?):\n`;
-      code += `        # Do nothing it should respond in the purchase subscription\n`;
-      code += `    else:\n`;
-      code += `        Print("Failed to buy the offer")\n\n`;
-    });
-  }
-  
-  if (activeBundles.length > 0) {
-    code += '# Bundle Offers\n\n';
-    activeBundles.forEach(bundle => {
-      code += `# Purchase ${bundle.className} (${bundle.offers.length} items, ${bundle.price.amount} V-Bucks)\n`;
-      code += `    Result := BuyOffer(Player, BundleOffers.${bundle.className}). only works in a <suspends> function.\n`;
-      code += `    if (Result?):\n`;
-      code += `        # Do nothing it should respond in the purchase subscription\n`;
-      code += `    else:\n`;
-      code += `        Print("Failed to buy the offer")\n\n`;
-    });
-  }
-
-  if (activeOffers.length === 0 && activeBundles.length === 0) {
-    code += '# No items selected. Select offers or bundles above to generate code.';
-  }
+export default function App() {
+  // All saved projects; the active one is what the editor works on
+  const [workspace, setWorkspace] = useState<Workspace>(loadWorkspace);
+  const activeProject = workspace.projects.find(p => p.id === workspace.activeProjectId) ?? workspace.projects[0];
+  const project = activeProject.data;
 
-  return code;
-};
+  // Every edit goes through here, so every edit can be undone
+  const setProject = (update: ProjectData | ((prev: ProjectData) => ProjectData)) => {
+    setWorkspace(ws => ({
+      ...ws,
+      projects: ws.projects.map(p => {
+        if (p.id !== ws.activeProjectId) return p;
+        const data = typeof update === 'function' ? update(p.data) : update;
+        const at = Date.now();
+        return { ...p, updatedAt: at, data, history: recordChange(p.history ?? emptyHistory(), p.data, data, at) };
+      })
+    }));
+  };
 
-// UPDATED: Matches user requested pattern for ConsumeEntitlement
-const generateConsumeCode = (data: ProjectData, selectedItems: Set<string>, quantity: number): string => {
-  let code = '// ConsumeEntitlement API Usage Examples - VERSE TRANSACTIONS\n';
-  code += '// Only works with consumable entitlements (Consumable = true). only works in a <suspends> function.\n';
-  
-  const consumableEnts = data.entitlements.filter(e => e.consumable && selectedItems.has(e.className));
-  
-  if (consumableEnts.length > 0) {
-    consumableEnts.forEach(ent => {
-      code += `# Consume ${ent.className} (MaxCount: ${ent.maxCount}, Quantity: ${quantity})\n`;
-      code += `    ConsRes := ConsumeEntitlement(Player, Entitlements.${ent.className}, ?Count := ${quantity})\n`;
-      code += `    if (ConsRes?):\n`;
-      code += `        Print("Successfully consumed entitlement.")\n`;
-      code += `        # Add custom logic here (e.g., HUD messages, stat updates)\n`;
-      code += `    else:\n`;
-      code += `        Print("Failed to consume entitlement.")\n\n`;
-    });
-  } else {
-    code += '# No consumable entitlements selected or available.';
-  }
-  return code;
-};
+  // Autosave, debounced so typing in the editors doesn't hammer storage.
+  // savedAt is the last write that actually landed, not the last edit.
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [saveFailed, setSaveFailed] = useState(false);
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const saved = saveWorkspace(workspace);
+      setSaveFailed(!saved);
+      if (saved) setSavedAt(Date.now());
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [workspace]);
 
-// ============================================================================
-// MAIN APP COMPONENT
-// ============================================================================
+  // Per-browser V-Bucks exchange table for the real-money estimates
+  const [exchangeRates, setExchangeRates] = useState(loadExchangeRates);
+  useEffect(() => saveExchangeRates(exchangeRates), [exchangeRates]);
+  // Texture thumbnails live outside project data, saved whenever they change
+  const [texturePreviews, setTexturePreviews] = useState(loadTexturePreviews);
 
-export default function App() {
-  const [project, setProject] = useState<ProjectData>({
-    entitlementInfos: [],
-    entitlements: [],
-    offers: [],
-    bundles: []
-  });
-  
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState('info');
-  const [outputMode, setOutputMode] = useState<'verse' | 'buy' | 'consume'>('verse');
+  const [outputMode, setOutputMode] = useState<'verse' | 'buy' | 'consume' | 'owned' | 'device' | 'diff'>('verse');
   
   // Selection State for Code Generation
   const [selectedForGen, setSelectedForGen] = useState<Set<string>>(new Set());
   // New state for consume quantity
   const [consumeQuantity, setConsumeQuantity] = useState<number>(1);
+  // Single file is what most islands paste in; split writes one file per module
+  const [verseLayout, setVerseLayout] = useState<'single' | 'split'>('single');
+  // Button or trigger per offer for the purchase device
+  const [deviceBindings, setDeviceBindings] = useState<Record<string, DeviceBinding>>({});
 
   // Editing State (Item + Index). Index -1 means new item.
   const [editInfoIndex, setEditInfoIndex] = useState<number | null>(null);
@@ -270,10 +124,23 @@ export default function App() {
 
   const [editOfferIndex, setEditOfferIndex] = useState<number | null>(null);
   const [editingOffer, setEditingOffer] = useState<EntitlementOffer | null>(null);
+  const [showOfferWizard, setShowOfferWizard] = useState(false);
 
   const [editBundleIndex, setEditBundleIndex] = useState<number | null>(null);
   const [editingBundle, setEditingBundle] = useState<BundleOffer | null>(null);
 
+  // Search, filter and sort for each editor list
+  const [listQueries, setListQueries] = useState<Record<ProjectSection, ListQuery>>(() => ({
+    entitlementInfos: emptyListQuery(),
+    entitlements: emptyListQuery(),
+    offers: emptyListQuery(),
+    bundles: emptyListQuery()
+  }));
+  const setListQuery = (section: ProjectSection) => (query: ListQuery) =>
+    setListQueries(queries => ({ ...queries, [section]: query }));
+  // Narrows the output panel's selection chips
+  const [selectionTag, setSelectionTag] = useState('');
+
   // Initialize selection when project data changes
   useEffect(() => {
     // Auto-select everything initially or when new items are added for convenience
@@ -283,7 +150,105 @@ export default function App() {
       ...project.entitlements.map(e => e.className)
     ]);
     setSelectedForGen(allIds);
-  }, [project.offers.length, project.bundles.length, project.entitlements.length]);
+  }, [activeProject.id, project.offers.length, project.bundles.length, project.entitlements.length]);
+
+  // --- PROJECT MANAGEMENT ---
+
+  const closeEditors = () => {
+    setEditingInfo(null);
+    setEditInfoIndex(null);
+    setEditingEntitlement(null);
+    setEditEntIndex(null);
+    setEditingOffer(null);
+    setEditOfferIndex(null);
+    setEditingBundle(null);
+    setEditBundleIndex(null);
+    setPendingDelete(null);
+  };
+
+  const selectProject = (id: string) => {
+    closeEditors();
+    setWorkspace(ws => ({ ...ws, activeProjectId: id }));
+  };
+
+  const newProject = () => {
+    const created = createProject(`Untitled Project ${workspace.projects.length + 1}`);
+    closeEditors();
+    setWorkspace(ws => ({ ...ws, activeProjectId: created.id, projects: [...ws.projects, created] }));
+  };
+
+  const renameProject = (id: string, name: string) => {
+    setWorkspace(ws => ({
+      ...ws,
+      projects: ws.projects.map(p => p.id === id ? { ...p, name, updatedAt: Date.now() } : p)
+    }));
+  };
+
+  const duplicateProject = (id: string) => {
+    const source = workspace.projects.find(p => p.id === id);
+    if (!source) return;
+    const copy = createProject(`${source.name} (copy)`, structuredClone(source.data));
+    closeEditors();
+    setWorkspace(ws => ({ ...ws, activeProjectId: copy.id, projects: [...ws.projects, copy] }));
+  };
+
+  const deleteProject = (id: string) => {
+    closeEditors();
+    setWorkspace(ws => {
+      const remaining = ws.projects.filter(p => p.id !== id);
+      // Never leave the workspace empty
+      if (remaining.length === 0) {
+        const fresh = createProject('Untitled Project');
+        return { ...ws, activeProjectId: fresh.id, projects: [fresh] };
+      }
+      const activeProjectId = ws.activeProjectId === id ? remaining[0].id : ws.activeProjectId;
+      return { ...ws, activeProjectId, projects: remaining };
+    });
+  };
+
+  // --- PROJECT FILES ---
+
+  // Imports with problems wait here until the user confirms or cancels
+  const [pendingImport, setPendingImport] = useState<ProjectImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [showVerseImport, setShowVerseImport] = useState(false);
+  const [showCatalogImport, setShowCatalogImport] = useState(false);
+
+  const exportProject = () => {
+    downloadFile(`${toFileName(activeProject.name)}.json`, serializeProjectFile(activeProject.name, project), 'application/json');
+  };
+
+  const addImportedProject = (imported: ProjectImport) => {
+    const created = createProject(imported.name, imported.data);
+    closeEditors();
+    setWorkspace(ws => ({ ...ws, activeProjectId: created.id, projects: [...ws.projects, created] }));
+    setPendingImport(null);
+  };
+
+  const importProject = async (file: File) => {
+    setImportError(null);
+    setPendingImport(null);
+    try {
+      const imported = parseProjectFile(await file.text(), file.name.replace(/\.json$/i, ''));
+      if (imported.problems.length > 0) setPendingImport(imported);
+      else addImportedProject(imported);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  const importVerse = (source: string, name: string) => {
+    const parsed = parseVerseSource(source);
+    const { data, problems } = checkProjectData(parsed.data);
+    const imported: ProjectImport = {
+      name,
+      data,
+      problems: [...parsed.warnings.map(w => `Line ${w.line}: ${w.message}`), ...problems]
+    };
+    setShowVerseImport(false);
+    if (imported.problems.length > 0) setPendingImport(imported);
+    else addImportedProject(imported);
+  };
 
   const toggleSelection = (id: string) => {
     const newSet = new Set(selectedForGen);
@@ -292,17 +257,76 @@ export default function App() {
     setSelectedForGen(newSet);
   };
 
+  // Carries a generation selection over when an item is renamed
+  const renameSelection = (section: ProjectSection, index: number | null, newName: string) => {
+    if (index === null || index < 0) return;
+    const oldName = itemName(project, section, index);
+    if (oldName === newName || !selectedForGen.has(oldName)) return;
+    const newSet = new Set(selectedForGen);
+    newSet.delete(oldName);
+    newSet.add(newName);
+    setSelectedForGen(newSet);
+  };
+
+  // --- DELETE HANDLERS ---
+
+  const [pendingDelete, setPendingDelete] = useState<DeletePlan | null>(null);
+
+  // Deletes straight away unless something references the item
+  const requestDelete = (section: ProjectSection, index: number) => {
+    const plan = planDelete(project, section, index);
+    if (plan.dependents.length > 0) setPendingDelete(plan);
+    else setProject(plan.result);
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    // Re-plan against the latest data in case it changed while the prompt was open
+    setProject(prev => planDelete(prev, pendingDelete.section, pendingDelete.index).result);
+    setPendingDelete(null);
+  };
+
+  // --- UNDO / REDO ---
+
+  const travel = (move: typeof undo) => {
+    // Open editors hold an index into the old data
+    closeEditors();
+    setWorkspace(ws => ({
+      ...ws,
+      projects: ws.projects.map(p => {
+        if (p.id !== ws.activeProjectId) return p;
+        const moved = move(p.history ?? emptyHistory(), p.data);
+        return moved ? { ...p, updatedAt: Date.now(), data: moved.data, history: moved.history } : p;
+      })
+    }));
+  };
+
+  // No dependency list: travel is a new closure on every render
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Text fields keep their own undo
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      travel(e.shiftKey ? redo : undo);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   // --- SAVE HANDLERS (Create or Update) ---
 
   const saveInfo = () => {
     if (editingInfo) {
+      renameSelection('entitlementInfos', editInfoIndex, editingInfo.moduleName);
       setProject(prev => {
         const newList = [...prev.entitlementInfos];
         if (editInfoIndex !== null && editInfoIndex >= 0) {
           newList[editInfoIndex] = editingInfo; // Update
-        } else {
-          newList.push(editingInfo); // Create
+          // Keep entitlements and offers pointing at the renamed module
+          return renameReferences({ ...prev, entitlementInfos: newList }, 'entitlementInfos', prev.entitlementInfos[editInfoIndex].moduleName, editingInfo.moduleName);
         }
+        newList.push(editingInfo); // Create
         return { ...prev, entitlementInfos: newList };
       });
       setEditingInfo(null);
@@ -313,13 +337,15 @@ export default function App() {
   const saveEntitlement = () => {
     if (editingEntitlement) {
       if (validateEntitlement(editingEntitlement).length === 0) {
+        renameSelection('entitlements', editEntIndex, editingEntitlement.className);
         setProject(prev => {
           const newList = [...prev.entitlements];
           if (editEntIndex !== null && editEntIndex >= 0) {
             newList[editEntIndex] = editingEntitlement;
-          } else {
-            newList.push(editingEntitlement);
+            // Linked offers pick up the entitlement's new info module and icon
+            return syncLinkedOffers(renameReferences({ ...prev, entitlements: newList }, 'entitlements', prev.entitlements[editEntIndex].className, editingEntitlement.className));
           }
+          newList.push(editingEntitlement);
           return { ...prev, entitlements: newList };
         });
         setEditingEntitlement(null);
@@ -334,13 +360,14 @@ export default function App() {
       if (validatePrice(editingOffer.price.amount).length > 0) {
         return;
       }
+      renameSelection('offers', editOfferIndex, editingOffer.className);
       setProject(prev => {
         const newList = [...prev.offers];
         if (editOfferIndex !== null && editOfferIndex >= 0) {
           newList[editOfferIndex] = editingOffer;
-        } else {
-          newList.push(editingOffer);
+          return renameReferences({ ...prev, offers: newList }, 'offers', prev.offers[editOfferIndex].className, editingOffer.className);
         }
+        newList.push(editingOffer);
         return { ...prev, offers: newList };
       });
       setEditingOffer(null);
@@ -354,13 +381,15 @@ export default function App() {
       if (validatePrice(editingBundle.price.amount).length > 0) {
         return;
       }
+      renameSelection('bundles', editBundleIndex, editingBundle.className);
       setProject(prev => {
         const newList = [...prev.bundles];
         if (editBundleIndex !== null && editBundleIndex >= 0) {
           newList[editBundleIndex] = editingBundle;
-        } else {
-          newList.push(editingBundle);
+          // Bundles can contain other bundles, so a rename has to reach them too
+          return renameReferences({ ...prev, bundles: newList }, 'bundles', prev.bundles[editBundleIndex].className, editingBundle.className);
         }
+        newList.push(editingBundle);
         return { ...prev, bundles: newList };
       });
       setEditingBundle(null);
@@ -368,26 +397,87 @@ export default function App() {
     }
   };
 
+  // --- PROBLEMS ---
+
+  const diagnostics = validateProject(project);
+  const tags = projectTags(project);
+  const infoRows = queryList(project, 'entitlementInfos', listQueries.entitlementInfos);
+  const entitlementRows = queryList(project, 'entitlements', listQueries.entitlements);
+  const offerRows = queryList(project, 'offers', listQueries.offers);
+  const bundleRows = queryList(project, 'bundles', listQueries.bundles);
+  // Items the selection chips show for the current output mode
+  const selectableItems = (outputMode === 'owned' ? project.entitlements
+    : outputMode === 'consume' ? project.entitlements.filter(e => e.consumable)
+    : [...project.offers, ...project.bundles]).filter(item => hasTag(item, selectionTag));
+  const selectShown = (selected: boolean) => {
+    const newSet = new Set(selectedForGen);
+    selectableItems.forEach(item => selected ? newSet.add(item.className) : newSet.delete(item.className));
+    setSelectedForGen(newSet);
+  };
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  // Verse with dangling references won't compile, so don't hand it out
+  const verseBlocked = (outputMode === 'verse' || outputMode === 'device' || outputMode === 'diff') && errorCount > 0;
+
+  const openDiagnostic = (d: Diagnostic) => {
+    closeEditors();
+    if (d.section === 'codegen' || d.section === 'pricing') {
+      setActiveTab(d.section);
+    } else if (d.section === 'classes') {
+      setActiveTab('entitlements');
+    } else if (d.section === 'entitlementInfos') {
+      setActiveTab('info');
+      setEditingInfo({ ...project.entitlementInfos[d.index] });
+      setEditInfoIndex(d.index);
+    } else if (d.section === 'entitlements') {
+      setActiveTab('entitlements');
+      setEditingEntitlement({ ...project.entitlements[d.index] });
+      setEditEntIndex(d.index);
+    } else if (d.section === 'offers') {
+      setActiveTab('offers');
+      setEditingOffer({ ...project.offers[d.index] });
+      setEditOfferIndex(d.index);
+    } else {
+      setActiveTab('bundles');
+      setEditingBundle({ ...project.bundles[d.index] });
+      setEditBundleIndex(d.index);
+    }
+  };
+
   // --- OUTPUT GENERATION ---
 
+  // The Verse last copied out becomes the baseline for the diff view
+  const takeSnapshot = () => {
+    const code = generateVerseCode(project);
+    setWorkspace(ws => ({
+      ...ws,
+      projects: ws.projects.map(p => p.id === ws.activeProjectId ? { ...p, verseSnapshot: { code, takenAt: Date.now() } } : p)
+    }));
+  };
+
+  const downloadVerseZip = () => {
+    downloadFile(`${toFileName(activeProject.name)}_verse.zip`, createZip(generateVerseFiles(project)), 'application/zip');
+    takeSnapshot();
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(getOutputCode());
+    if (outputMode === 'verse' || outputMode === 'diff') takeSnapshot();
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   const getOutputCode = () => {
-    if (outputMode === 'verse') return generateVerseCode(project);
+    if (outputMode === 'verse' && verseLayout === 'split') {
+      return generateVerseFiles(project).map(file => `// ---- ${file.path} ----\n\n${file.content}`).join('\n');
+    }
+    if (outputMode === 'verse' || outputMode === 'diff') return generateVerseCode(project);
     if (outputMode === 'buy') return generateBuyOfferCode(project, selectedForGen);
+    if (outputMode === 'owned') return generateOwnershipCode(project, selectedForGen);
+    if (outputMode === 'device') return generateDeviceCode(project, selectedForGen, deviceBindings);
     // Pass consumeQuantity to the generator
     return generateConsumeCode(project, selectedForGen, consumeQuantity);
   };
 
-  // Reusable Styles - All rounded classes replaced with rounded-none
-  const inputClass = "bg-neutral-900 border border-emerald-800 text-emerald-100 rounded-none focus:ring-1 focus:ring-emerald-500 placeholder:text-emerald-700/50";
-  const labelClass = "text-emerald-500 font-semibold tracking-wide text-sm mb-1 block";
-  const cardBorder = "border border-emerald-800"; // 1px stroke
-
   return (
     <div className="min-h-screen bg-neutral-950 text-emerald-100 p-6 font-sans">
       <Analytics />
@@ -409,6 +499,54 @@ export default function App() {
           </div>
         </div>
 
+        <ProjectSwitcher
+          projects={workspace.projects}
+          activeProjectId={activeProject.id}
+          onSelect={selectProject}
+          onCreate={newProject}
+          onRename={renameProject}
+          onDuplicate={duplicateProject}
+          onDelete={deleteProject}
+          onExport={exportProject}
+          onImport={importProject}
+          onImportVerse={() => setShowVerseImport(true)}
+          onImportCatalog={() => setShowCatalogImport(true)}
+          savedAt={savedAt}
+          saveFailed={saveFailed}
+        />
+
+        <HistoryPanel
+          history={activeProject.history ?? emptyHistory()}
+          onUndo={() => travel(undo)}
+          onRedo={() => travel(redo)}
+        />
+
+        {showVerseImport && (
+          <VerseImportPanel onParse={importVerse} onCancel={() => setShowVerseImport(false)} />
+        )}
+        {showCatalogImport && (
+          <CatalogImportPanel
+            project={project}
+            onImport={(data) => {
+              setProject(data);
+              setShowCatalogImport(false);
+            }}
+            onCancel={() => setShowCatalogImport(false)}
+          />
+        )}
+
+        {importError && (
+          <ImportReview title="Import failed" error={importError} problems={[]} onCancel={() => setImportError(null)} />
+        )}
+        {pendingImport && (
+          <ImportReview
+            title={`Importing "${pendingImport.name}"`}
+            problems={pendingImport.problems}
+            onConfirm={() => addImportedProject(pendingImport)}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* CONFIGURATION CARD */}
           {/* Changed rounded-sm to rounded-none */}
@@ -419,10 +557,13 @@ export default function App() {
             </CardHeader>
             {/* Changed pt-6 to pt-4 to reduce padding */}
             <CardContent className="pt-4">
+              {pendingDelete && (
+                <DeleteConfirm plan={pendingDelete} onConfirm={confirmDelete} onCancel={() => setPendingDelete(null)} />
+              )}
               <Tabs value={activeTab} onValueChange={setActiveTab}>
                 {/* Fixed Tabs List Structure, Changed rounded-sm to rounded-none */}
                 <TabsList className={`w-full bg-neutral-950 ${cardBorder} p-1 h-auto grid grid-cols-4 gap-1 rounded-none`}>
-                  {['info', 'entitlements', 'offers', 'bundles'].map((tab) => (
+                  {['info', 'entitlements', 'offers', 'bundles', 'strings', 'pricing', 'textures', 'codegen'].map((tab) => (
                     <TabsTrigger 
                       key={tab}
                       value={tab} 
@@ -462,12 +603,25 @@ export default function App() {
                       >
                         <Plus className="w-4 h-4 mr-2" /> New Info Module
                       </Button>
+                      <ListToolbar
+                        section="entitlementInfos"
+                        query={listQueries.entitlementInfos}
+                        onChange={setListQuery('entitlementInfos')}
+                        tags={tags}
+                        shown={infoRows.length}
+                        total={project.entitlementInfos.length}
+                      />
                       <div className="space-y-2">
-                        {project.entitlementInfos.map((info, idx) => (
+                        {infoRows.length === 0 && project.entitlementInfos.length > 0 && (
+                          <p className="text-sm text-emerald-700">Nothing matches these filters.</p>
+                        )}
+                        {infoRows.map(([info, idx]) => (
                           <div key={idx} className={`p-3 bg-neutral-900 ${cardBorder} flex justify-between items-center rounded-none`}>
                             <div className="flex-1">
                               <span className="text-emerald-400 font-mono block font-bold">{info.moduleName}</span>
                               <span className="text-emerald-600/80 text-sm">{info.name.text || "No display name"}</span>
+                              <MissingTranslations count={countMissing([info.name, info.description, info.shortDescription], project)} />
+                              <ItemTags tags={info.tags} />
                             </div>
                             <div className="flex gap-2">
                               <Button
@@ -483,12 +637,7 @@ export default function App() {
                               <Button
                                 variant="destructive"
                                 size="sm"
-                                onClick={() => {
-                                  setProject(prev => ({
-                                    ...prev,
-                                    entitlementInfos: prev.entitlementInfos.filter((_, i) => i !== idx)
-                                  }));
-                                }}
+                                onClick={() => requestDelete('entitlementInfos', idx)}
                                 className="bg-red-900/20 hover:bg-red-900/40 border border-red-900/50 text-red-400 rounded-none"
                               >
                                 <Trash2 className="w-4 h-4" />
@@ -519,6 +668,7 @@ export default function App() {
                           onChange={(e) => setEditingInfo({...editingInfo, name: {...editingInfo.name, text: e.target.value}})}
                           className={inputClass}
                         />
+                        <TextLimitHint field="name" text={editingInfo.name.text} />
                       </div>
                       <div>
                         <Label className={labelClass}>Full Description</Label>
@@ -527,6 +677,7 @@ export default function App() {
                           onChange={(e) => setEditingInfo({...editingInfo, description: {...editingInfo.description, text: e.target.value}})}
                           className={`${inputClass} min-h-[80px]`}
                         />
+                        <TextLimitHint field="description" text={editingInfo.description.text} />
                       </div>
                       <div>
                         <Label className={labelClass}>Short Description</Label>
@@ -535,7 +686,13 @@ export default function App() {
                           onChange={(e) => setEditingInfo({...editingInfo, shortDescription: {...editingInfo.shortDescription, text: e.target.value}})}
                           className={inputClass}
                         />
+                        <TextLimitHint field="shortDescription" text={editingInfo.shortDescription.text} />
                       </div>
+                      <TagInput
+                        tags={editingInfo.tags ?? []}
+                        onChange={(tags) => setEditingInfo({...editingInfo, tags})}
+                        suggestions={tags}
+                      />
                       <div className="flex gap-2 pt-2">
                         <Button onClick={saveInfo} className={`flex-1 bg-emerald-700 hover:bg-emerald-600 text-white ${cardBorder} font-bold rounded-none`}>
                           <Save className="w-4 h-4 mr-2" /> Save Info Module
@@ -573,8 +730,19 @@ export default function App() {
                         <Plus className="w-4 h-4 mr-2" /> New Entitlement
                       </Button>
 
+                      <ListToolbar
+                        section="entitlements"
+                        query={listQueries.entitlements}
+                        onChange={setListQuery('entitlements')}
+                        tags={tags}
+                        shown={entitlementRows.length}
+                        total={project.entitlements.length}
+                      />
                       <div className="space-y-2">
-                        {project.entitlements.map((ent, idx) => (
+                        {entitlementRows.length === 0 && project.entitlements.length > 0 && (
+                          <p className="text-sm text-emerald-700">Nothing matches these filters.</p>
+                        )}
+                        {entitlementRows.map(([ent, idx]) => (
                           <div key={idx} className={`p-3 bg-neutral-900 ${cardBorder} flex justify-between items-center rounded-none`}>
                             <div className="flex-1">
                               <span className="text-emerald-400 font-mono block font-bold">{ent.className}</span>
@@ -583,7 +751,10 @@ export default function App() {
                                   {ent.consumable ? '🔄 Consumable' : '🔒 Permanent'}
                                 </span>
                                 <span className="text-emerald-600/80 text-xs uppercase tracking-wide">Max: {ent.maxCount}</span>
+                                {ent.paidRandomItem && <span className="text-amber-400/80 text-xs uppercase tracking-wide">🎲 Random</span>}
+                                {ent.paidArea && <span className="text-amber-400/80 text-xs uppercase tracking-wide">🚪 Paid Area</span>}
                               </div>
+                              <ItemTags tags={ent.tags} />
                             </div>
                             <div className="flex gap-2">
                               <Button
@@ -599,12 +770,7 @@ export default function App() {
                               <Button
                                 variant="destructive"
                                 size="sm"
-                                onClick={() => {
-                                  setProject(prev => ({
-                                    ...prev,
-                                    entitlements: prev.entitlements.filter((_, i) => i !== idx)
-                                  }));
-                                }}
+                                onClick={() => requestDelete('entitlements', idx)}
                                 className="bg-red-900/20 hover:bg-red-900/40 border border-red-900/50 text-red-400 rounded-none"
                               >
                                 <Trash2 className="w-4 h-4" />
@@ -613,6 +779,8 @@ export default function App() {
                           </div>
                         ))}
                       </div>
+
+                      <ParentClassPanel project={project} setProject={setProject} />
                     </>
                   ) : (
                     <div className={`space-y-4 p-4 bg-neutral-900 ${cardBorder} rounded-none`}>
@@ -649,12 +817,35 @@ export default function App() {
                         </select>
                       </div>
 
+                      <div>
+                        <Label className={labelClass}>Parent Class</Label>
+                        <select
+                          value={entitlementParent(editingEntitlement)}
+                          onChange={(e) => {
+                            const parent = e.target.value;
+                            setEditingEntitlement(isBuiltinParent(parent)
+                              ? {...editingEntitlement, parentClass: parent, customParent: undefined}
+                              : {...editingEntitlement, parentClass: 'custom', customParent: parent});
+                          }}
+                          className={`${selectClass} font-mono`}
+                        >
+                          {[...BUILTIN_PARENT_CLASSES, ...project.parentClasses.map(c => c.name)].map(name => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                          {editingEntitlement.parentClass === 'custom'
+                            && !project.parentClasses.some(c => c.name === editingEntitlement.customParent) && (
+                            <option value={editingEntitlement.customParent ?? ''}>{editingEntitlement.customParent || '(none)'} (declared elsewhere)</option>
+                          )}
+                        </select>
+                      </div>
+
                       <div>
                         <Label className={labelClass}>Icon Texture</Label>
-                        <Input
+                        <IconPicker
                           value={editingEntitlement.icon}
-                          onChange={(e) => setEditingEntitlement({...editingEntitlement, icon: e.target.value})}
-                          className={inputClass}
+                          onChange={(icon) => setEditingEntitlement({...editingEntitlement, icon})}
+                          textures={project.textures}
+                          previews={texturePreviews}
                         />
                       </div>
 
@@ -665,7 +856,7 @@ export default function App() {
                             type="number"
                             min="1"
                             value={editingEntitlement.maxCount}
-                            onChange={(e) => setEditingEntitlement({...editingEntitlement, maxCount: parseInt(e.target.value)})}
+                            onChange={(e) => setEditingEntitlement({...editingEntitlement, maxCount: parseInt(e.target.value) || 0})}
                             className={inputClass}
                           />
                         </div>
@@ -690,6 +881,30 @@ export default function App() {
                         />
                       </div>
 
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className={`flex items-center justify-between p-2 bg-neutral-950 ${cardBorder} rounded-none`}>
+                          <Label className="text-emerald-600/80 cursor-pointer" title="Loot-box style purchase with a random outcome">Paid Random Item</Label>
+                          <Switch
+                            checked={editingEntitlement.paidRandomItem}
+                            onCheckedChange={(checked) => setEditingEntitlement({...editingEntitlement, paidRandomItem: checked})}
+                            className="data-[state=checked]:bg-emerald-500"
+                          />
+                        </div>
+                        <div className={`flex items-center justify-between p-2 bg-neutral-950 ${cardBorder} rounded-none`}>
+                          <Label className="text-emerald-600/80 cursor-pointer" title="Grants access to a paid zone of the island">Paid Area</Label>
+                          <Switch
+                            checked={editingEntitlement.paidArea}
+                            onCheckedChange={(checked) => setEditingEntitlement({...editingEntitlement, paidArea: checked})}
+                            className="data-[state=checked]:bg-emerald-500"
+                          />
+                        </div>
+                      </div>
+
+                      <TagInput
+                        tags={editingEntitlement.tags ?? []}
+                        onChange={(tags) => setEditingEntitlement({...editingEntitlement, tags})}
+                        suggestions={tags}
+                      />
                       <div className="flex gap-2 pt-2">
                         <Button 
                           onClick={saveEntitlement} 
@@ -708,34 +923,70 @@ export default function App() {
 
                 {/* OFFERS TAB */}
                 <TabsContent value="offers" className="space-y-4 mt-4">
-                  {!editingOffer ? (
+                  {showOfferWizard ? (
+                    <EntitlementOfferWizard
+                      project={project}
+                      exchangeRates={exchangeRates}
+                      texturePreviews={texturePreviews}
+                      onCreate={(data) => {
+                        setProject(data);
+                        setShowOfferWizard(false);
+                      }}
+                      onCancel={() => setShowOfferWizard(false)}
+                    />
+                  ) : !editingOffer ? (
                     <>
-                      <Button 
-                        onClick={() => {
-                          setEditingOffer({
-                            className: `new_offer_${project.offers.length + 1}`,
-                            infoModule: project.entitlementInfos[0]?.moduleName || '',
-                            icon: 'default_icon',
-                            entitlementType: project.entitlements[0]?.className || '',
-                            // Default to a valid price
-                            price: { type: 'vbucks', amount: 100 }
-                          });
-                          setEditOfferIndex(-1);
-                        }}
-                        disabled={project.entitlements.length === 0}
-                        className={`w-full bg-emerald-900/40 hover:bg-emerald-800/60 text-emerald-100 ${cardBorder} uppercase font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed rounded-none`}
-                      >
-                        <Plus className="w-4 h-4 mr-2" /> New Offer
-                      </Button>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button 
+                          onClick={() => {
+                            // New offers follow their entitlement until a field is overridden
+                            setEditingOffer(applyEntitlementDefaults({
+                              className: `new_offer_${project.offers.length + 1}`,
+                              infoModule: project.entitlementInfos[0]?.moduleName || '',
+                              icon: 'default_icon',
+                              entitlementType: project.entitlements[0]?.className || '',
+                              // Default to a valid price
+                              price: { type: 'vbucks', amount: 100 },
+                              linked: true,
+                              overrides: []
+                            }, project.entitlements));
+                            setEditOfferIndex(-1);
+                          }}
+                          disabled={project.entitlements.length === 0}
+                          className={`w-full bg-emerald-900/40 hover:bg-emerald-800/60 text-emerald-100 ${cardBorder} uppercase font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed rounded-none`}
+                        >
+                          <Plus className="w-4 h-4 mr-2" /> New Offer
+                        </Button>
+                        <Button
+                          onClick={() => setShowOfferWizard(true)}
+                          title="Create an entitlement and an offer that sells it in one step"
+                          className={`w-full bg-emerald-900/40 hover:bg-emerald-800/60 text-emerald-100 ${cardBorder} uppercase font-bold transition-all rounded-none`}
+                        >
+                          <Wand2 className="w-4 h-4 mr-2" /> New Entitlement + Offer
+                        </Button>
+                      </div>
 
+                      <ListToolbar
+                        section="offers"
+                        query={listQueries.offers}
+                        onChange={setListQuery('offers')}
+                        tags={tags}
+                        shown={offerRows.length}
+                        total={project.offers.length}
+                      />
                       <div className="space-y-2">
-                        {project.offers.map((offer, idx) => (
+                        {offerRows.length === 0 && project.offers.length > 0 && (
+                          <p className="text-sm text-emerald-700">Nothing matches these filters.</p>
+                        )}
+                        {offerRows.map(([offer, idx]) => (
                           <div key={idx} className={`p-3 bg-neutral-900 ${cardBorder} flex justify-between items-center rounded-none`}>
                             <div className="flex-1">
                               <span className="text-emerald-400 font-mono block font-bold">{offer.className}</span>
-                              <span className="text-emerald-600/80 text-sm">
-                                {offer.price.amount} V-Bucks
+                              <span className="text-emerald-600/80 text-sm flex items-center gap-1">
+                                {offer.linked && <Link2 className="w-3 h-3" aria-label={`Linked to ${offer.entitlementType}`} />}
+                                {offer.price.amount} V-Bucks{offer.price.tier && ` • ${offer.price.tier}`}
                               </span>
+                              <ItemTags tags={offer.tags} />
                             </div>
                             <div className="flex gap-2">
                               <Button
@@ -751,12 +1002,7 @@ export default function App() {
                               <Button
                                 variant="destructive"
                                 size="sm"
-                                onClick={() => {
-                                  setProject(prev => ({
-                                    ...prev,
-                                    offers: prev.offers.filter((_, i) => i !== idx)
-                                  }));
-                                }}
+                                onClick={() => requestDelete('offers', idx)}
                                 className="bg-red-900/20 hover:bg-red-900/40 border border-red-900/50 text-red-400 rounded-none"
                               >
                                 <Trash2 className="w-4 h-4" />
@@ -793,7 +1039,7 @@ export default function App() {
                         <Label className={labelClass}>Entitlement Type</Label>
                         <select
                           value={editingOffer.entitlementType}
-                          onChange={(e) => setEditingOffer({...editingOffer, entitlementType: e.target.value})}
+                          onChange={(e) => setEditingOffer(applyEntitlementDefaults({...editingOffer, entitlementType: e.target.value}, project.entitlements))}
                           className={`w-full p-2 bg-neutral-900 ${cardBorder} text-emerald-100 rounded-none focus:outline-none focus:ring-1 focus:ring-emerald-500`}
                         >
                           {project.entitlements.map(ent => (
@@ -801,23 +1047,62 @@ export default function App() {
                           ))}
                         </select>
                       </div>
-                      <div className="grid grid-cols-1 gap-3">
-                        {/* Removed Currency Selector - Always V-Bucks */}
+                      <div className={`flex items-center justify-between p-2 bg-neutral-950 ${cardBorder} rounded-none`}>
                         <div>
-                          <Label className={labelClass}>Price (V-Bucks)</Label>
-                          <Input
-                            type="number"
-                            // Set min/max for UI constraints, validation handled on save
-                            min="50"
-                            max="5000"
-                            step="50"
-                            value={editingOffer.price.amount}
-                            onChange={(e) => setEditingOffer({...editingOffer, price: {...editingOffer.price, amount: parseFloat(e.target.value)}})}
-                            className={inputClass}
-                          />
-                          <p className="text-xs text-emerald-600/80 mt-1">Must be between 50 and 5000, and a multiple of 50.</p>
+                          <Label className="text-emerald-600/80 text-sm mb-0 cursor-pointer">Link to Entitlement</Label>
+                          <p className="text-xs text-emerald-700">Use the entitlement's info module and icon unless overridden below</p>
                         </div>
+                        <Switch
+                          checked={!!editingOffer.linked}
+                          onCheckedChange={(checked: boolean) => setEditingOffer(setLinked(editingOffer, checked, project.entitlements))}
+                          className="data-[state=checked]:bg-emerald-500"
+                        />
                       </div>
+                      <div>
+                        <LinkedFieldLabel
+                          label="Info Module Reference"
+                          offer={editingOffer}
+                          field="infoModule"
+                          onReset={() => setEditingOffer(resetOverride(editingOffer, 'infoModule', project.entitlements))}
+                        />
+                        <select
+                          value={editingOffer.infoModule}
+                          onChange={(e) => setEditingOffer(overrideField(editingOffer, 'infoModule', e.target.value))}
+                          className={selectClass}
+                        >
+                          {project.entitlementInfos.map(info => (
+                            <option key={info.moduleName} value={info.moduleName}>{info.moduleName}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <LinkedFieldLabel
+                          label="Icon Texture"
+                          offer={editingOffer}
+                          field="icon"
+                          onReset={() => setEditingOffer(resetOverride(editingOffer, 'icon', project.entitlements))}
+                        />
+                        <IconPicker
+                          value={editingOffer.icon}
+                          onChange={(icon) => setEditingOffer(overrideField(editingOffer, 'icon', icon))}
+                          textures={project.textures}
+                          previews={texturePreviews}
+                        />
+                      </div>
+                      <div className="grid grid-cols-1 gap-3">
+                        {/* Removed Currency Selector - Always V-Bucks */}
+                        <PriceInput
+                          price={editingOffer.price}
+                          tiers={project.priceTiers}
+                          exchangeRates={exchangeRates}
+                          onChange={(price) => setEditingOffer({...editingOffer, price})}
+                        />
+                      </div>
+                      <TagInput
+                        tags={editingOffer.tags ?? []}
+                        onChange={(tags) => setEditingOffer({...editingOffer, tags})}
+                        suggestions={tags}
+                      />
                       <div className="flex gap-2 pt-2">
                         <Button 
                           onClick={saveOffer} 
@@ -842,9 +1127,7 @@ export default function App() {
                         onClick={() => {
                           setEditingBundle({
                             className: `new_bundle_${project.bundles.length + 1}`,
-                            name: { key: 'name', text: '' },
-                            description: { key: 'desc', text: '' },
-                            shortDescription: { key: 'short', text: '' },
+                            infoModule: project.entitlementInfos[0]?.moduleName || '',
                             icon: 'bundle_icon',
                             offers: [],
                             // Default to a valid price
@@ -852,20 +1135,34 @@ export default function App() {
                           });
                           setEditBundleIndex(-1);
                         }}
-                        disabled={project.offers.length === 0}
+                        // Bundles can hold offers, other bundles or entitlements directly
+                        disabled={project.offers.length === 0 && project.bundles.length === 0 && project.entitlements.length === 0}
                         className={`w-full bg-emerald-900/40 hover:bg-emerald-800/60 text-emerald-100 ${cardBorder} uppercase font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed rounded-none`}
                       >
                         <Plus className="w-4 h-4 mr-2" /> New Bundle
                       </Button>
 
+                      <ListToolbar
+                        section="bundles"
+                        query={listQueries.bundles}
+                        onChange={setListQuery('bundles')}
+                        tags={tags}
+                        shown={bundleRows.length}
+                        total={project.bundles.length}
+                      />
                       <div className="space-y-2">
-                        {project.bundles.map((bundle, idx) => (
+                        {bundleRows.length === 0 && project.bundles.length > 0 && (
+                          <p className="text-sm text-emerald-700">Nothing matches these filters.</p>
+                        )}
+                        {bundleRows.map(([bundle, idx]) => (
                           <div key={idx} className={`p-3 bg-neutral-900 ${cardBorder} flex justify-between items-center rounded-none`}>
                             <div className="flex-1">
                               <span className="text-emerald-400 font-mono block font-bold">{bundle.className}</span>
                               <span className="text-emerald-600/80 text-sm">
-                                {bundle.offers.length} offers • {bundle.price.amount} V-Bucks
+                                {bundle.offers.length} items • {bundle.price.amount} V-Bucks{bundle.price.tier && ` • ${bundle.price.tier}`}
                               </span>
+                              <BundleValueSummary project={project} bundle={bundle} />
+                              <ItemTags tags={bundle.tags} />
                             </div>
                             <div className="flex gap-2">
                               <Button
@@ -881,12 +1178,7 @@ export default function App() {
                               <Button
                                 variant="destructive"
                                 size="sm"
-                                onClick={() => {
-                                  setProject(prev => ({
-                                    ...prev,
-                                    bundles: prev.bundles.filter((_, i) => i !== idx)
-                                  }));
-                                }}
+                                onClick={() => requestDelete('bundles', idx)}
                                 className="bg-red-900/20 hover:bg-red-900/40 border border-red-900/50 text-red-400 rounded-none"
                               >
                                 <Trash2 className="w-4 h-4" />
@@ -922,63 +1214,86 @@ export default function App() {
                       </div>
 
                       <div>
-                        <Label className={labelClass}>Bundle Name</Label>
-                        <Input
-                          value={editingBundle.name.text}
-                          onChange={(e) => setEditingBundle({...editingBundle, name: { ...editingBundle.name, text: e.target.value }})}
-                          className={inputClass}
-                        />
+                        <Label className={labelClass}>Info Module Reference</Label>
+                        <select
+                          value={editingBundle.infoModule}
+                          onChange={(e) => setEditingBundle({...editingBundle, infoModule: e.target.value})}
+                          className={`w-full p-2 bg-neutral-900 ${cardBorder} text-emerald-100 rounded-none focus:outline-none focus:ring-1 focus:ring-emerald-500`}
+                        >
+                          {project.entitlementInfos.map(info => (
+                            <option key={info.moduleName} value={info.moduleName}>{info.moduleName}</option>
+                          ))}
+                        </select>
                       </div>
 
                       <div>
-                        <Label className={labelClass}>Included Offers</Label>
-                        <div className="space-y-2">
-                          {project.offers.map((offer) => {
-                            const existing = editingBundle.offers.find(o => o.offerRef === offer.className);
-                            return (
-                              <div key={offer.className} className={`flex items-center justify-between p-2 bg-neutral-900 ${cardBorder} border-emerald-900/50 rounded-none`}>
-                                <span className="font-mono text-emerald-400">{offer.className}</span>
-                                <Input
-                                  type="number"
-                                  min={0}
-                                  value={existing?.quantity || 0}
-                                  onChange={(e) => {
-                                    const qty = parseInt(e.target.value);
-                                    setEditingBundle(prev => {
-                                      if (!prev) return prev;
-                                      const filtered = prev.offers.filter(o => o.offerRef !== offer.className);
-                                      return {
-                                        ...prev,
-                                        offers: qty > 0 ? [...filtered, { offerRef: offer.className, quantity: qty }] : filtered
-                                      };
-                                    });
-                                  }}
-                                  className="w-20 bg-neutral-950 border-emerald-900 text-emerald-100 rounded-none"
-                                />
-                              </div>
-                            );
-                          })}
-                        </div>
+                        <Label className={labelClass}>Icon Texture</Label>
+                        <IconPicker
+                          value={editingBundle.icon}
+                          onChange={(icon) => setEditingBundle({...editingBundle, icon})}
+                          textures={project.textures}
+                          previews={texturePreviews}
+                        />
                       </div>
 
+                      {([
+                        { kind: 'offer', label: 'Included Offers', names: project.offers.map(o => o.className) },
+                        { kind: 'bundle', label: 'Included Bundles', names: project.bundles.map(b => b.className)
+                          .filter(name => !wouldCreateCycle(project, editingBundle.className, name)) },
+                        { kind: 'entitlement', label: 'Included Entitlements', names: project.entitlements.map(e => e.className) }
+                      ] as const).filter(section => section.names.length > 0).map(section => (
+                        <div key={section.kind}>
+                          <Label className={labelClass}>{section.label}</Label>
+                          <div className="space-y-2">
+                            {section.names.map((name) => {
+                              const matches = (o: BundleEntry) => entryKind(o) === section.kind && o.offerRef === name;
+                              const existing = editingBundle.offers.find(matches);
+                              return (
+                                <div key={name} className={`flex items-center justify-between p-2 bg-neutral-900 ${cardBorder} border-emerald-900/50 rounded-none`}>
+                                  <span className="font-mono text-emerald-400">{name}</span>
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    value={existing?.quantity || 0}
+                                    onChange={(e) => {
+                                      const qty = parseInt(e.target.value);
+                                      setEditingBundle(prev => {
+                                        if (!prev) return prev;
+                                        const filtered = prev.offers.filter(o => !matches(o));
+                                        const entry: BundleEntry = section.kind === 'offer'
+                                          ? { offerRef: name, quantity: qty }
+                                          : { offerRef: name, quantity: qty, kind: section.kind };
+                                        return {
+                                          ...prev,
+                                          offers: qty > 0 ? [...filtered, entry] : filtered
+                                        };
+                                      });
+                                    }}
+                                    className="w-20 bg-neutral-950 border-emerald-900 text-emerald-100 rounded-none"
+                                  />
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ))}
+
                       <div className="grid grid-cols-1 gap-3">
                         {/* Removed Currency Selector - Always V-Bucks */}
-                        <div>
-                          <Label className={labelClass}>Price (V-Bucks)</Label>
-                          <Input
-                            type="number"
-                            // Set min/max for UI constraints, validation handled on save
-                            min="50"
-                            max="5000"
-                            step="50"
-                            value={editingBundle.price.amount}
-                            onChange={(e) => setEditingBundle({...editingBundle, price: {...editingBundle.price, amount: parseInt(e.target.value)}})}
-                            className={inputClass}
-                          />
-                          <p className="text-xs text-emerald-600/80 mt-1">Must be between 50 and 5000, and a multiple of 50.</p>
-                        </div>
+                        <PriceInput
+                          price={editingBundle.price}
+                          tiers={project.priceTiers}
+                          exchangeRates={exchangeRates}
+                          onChange={(price) => setEditingBundle({...editingBundle, price})}
+                        />
+                        <BundleValueSummary project={project} bundle={editingBundle} detailed />
                       </div>
 
+                      <TagInput
+                        tags={editingBundle.tags ?? []}
+                        onChange={(tags) => setEditingBundle({...editingBundle, tags})}
+                        suggestions={tags}
+                      />
                       <div className="flex gap-2 pt-2">
                         <Button 
                           onClick={saveBundle} 
@@ -994,6 +1309,36 @@ export default function App() {
                     </div>
                   )}
                 </TabsContent>
+
+                {/* STRINGS TAB */}
+                <TabsContent value="strings" className="mt-4">
+                  <LocalizationPanel project={project} projectName={activeProject.name} setProject={setProject} />
+                </TabsContent>
+
+                {/* PRICING TAB */}
+                <TabsContent value="pricing" className="space-y-4 mt-4">
+                  <CatalogExportBar project={project} projectName={activeProject.name} />
+                  <PricingPanel project={project} setProject={setProject} exchangeRates={exchangeRates} setExchangeRates={setExchangeRates} />
+                </TabsContent>
+
+                {/* TEXTURES TAB */}
+                <TabsContent value="textures" className="mt-4">
+                  <TexturePanel
+                    project={project}
+                    setProject={setProject}
+                    previews={texturePreviews}
+                    onPreviewsChange={(previews) => {
+                      setTexturePreviews(previews);
+                      return saveTexturePreviews(previews);
+                    }}
+                  />
+                </TabsContent>
+
+                {/* CODEGEN TAB */}
+                <TabsContent value="codegen" className="space-y-4 mt-4">
+                  <CodegenSettingsPanel project={project} setProject={setProject} />
+                  <TemplateEditor project={project} setProject={setProject} />
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -1009,6 +1354,8 @@ export default function App() {
                 </div>
                 <Button 
                   onClick={copyToClipboard} 
+                  disabled={verseBlocked}
+                  title={verseBlocked ? 'Fix the errors listed under Problems before copying' : undefined}
                   className={`bg-emerald-800 hover:bg-emerald-700 text-white ${cardBorder} font-bold rounded-none`}
                 >
                   {copied ? <><Check className="w-4 h-4 mr-2" /> Copied!</> : <><Copy className="w-4 h-4 mr-2" /> Copy</>}
@@ -1036,18 +1383,68 @@ export default function App() {
                 >
                   <Zap className="w-4 h-4 mr-2" /> Consume
                 </Button>
+                <Button
+                  onClick={() => setOutputMode('owned')}
+                  className={`flex-1 transition-all rounded-none font-bold uppercase ${outputMode === 'owned' ? 'bg-emerald-600 text-white shadow-lg' : 'bg-neutral-950 text-emerald-700 hover:bg-neutral-900 hover:text-emerald-400'} ${cardBorder}`}
+                >
+                  <ShieldCheck className="w-4 h-4 mr-2" /> Owned
+                </Button>
+                <Button
+                  onClick={() => setOutputMode('device')}
+                  className={`flex-1 transition-all rounded-none font-bold uppercase ${outputMode === 'device' ? 'bg-emerald-600 text-white shadow-lg' : 'bg-neutral-950 text-emerald-700 hover:bg-neutral-900 hover:text-emerald-400'} ${cardBorder}`}
+                >
+                  <Cpu className="w-4 h-4 mr-2" /> Device
+                </Button>
+                <Button
+                  onClick={() => setOutputMode('diff')}
+                  className={`flex-1 transition-all rounded-none font-bold uppercase ${outputMode === 'diff' ? 'bg-emerald-600 text-white shadow-lg' : 'bg-neutral-950 text-emerald-700 hover:bg-neutral-900 hover:text-emerald-400'} ${cardBorder}`}
+                >
+                  <GitCompare className="w-4 h-4 mr-2" /> Diff
+                </Button>
               </div>
 
-              {/* SELECTION INTERFACE (Only for Buy/Consume modes) */}
-              {(outputMode === 'buy' || outputMode === 'consume') && (
+              <ProblemsPanel diagnostics={diagnostics} onSelect={openDiagnostic} />
+
+              {outputMode === 'verse' && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={verseLayout}
+                    onChange={(e) => setVerseLayout(e.target.value as 'single' | 'split')}
+                    className={`${selectClass} w-56`}
+                  >
+                    <option value="single">Single file</option>
+                    <option value="split">Split by module</option>
+                  </select>
+                  {verseLayout === 'split' && (
+                    <Button size="sm" onClick={downloadVerseZip} disabled={verseBlocked} className={iconButtonClass}>
+                      <FolderDown className="w-4 h-4 mr-1" /> Download .zip
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {/* SELECTION INTERFACE (Only for Buy/Consume/Owned/Device modes) */}
+              {(outputMode === 'buy' || outputMode === 'consume' || outputMode === 'owned' || outputMode === 'device') && (
                 // Changed rounded-md to rounded-none
                 <div className={`p-4 bg-neutral-900 ${cardBorder} mb-4 rounded-none`}>
-                  <div className="text-xs text-emerald-600 uppercase tracking-wider mb-3">Select items to generate code for:</div>
+                  <div className="flex items-center justify-between gap-2 mb-3">
+                    <div className="text-xs text-emerald-600 uppercase tracking-wider">Select items to generate code for:</div>
+                    <div className="flex items-center gap-2">
+                      {tags.length > 0 && (
+                        <select value={selectionTag} onChange={(e) => setSelectionTag(e.target.value)} className={`${selectClass} w-36 p-1 text-sm`}>
+                          <option value="">Any tag</option>
+                          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                        </select>
+                      )}
+                      <Button size="sm" onClick={() => selectShown(true)} disabled={selectableItems.length === 0} className={iconButtonClass}>All</Button>
+                      <Button size="sm" onClick={() => selectShown(false)} disabled={selectableItems.length === 0} className={iconButtonClass}>None</Button>
+                    </div>
+                  </div>
                   <div className="flex flex-wrap gap-2">
-                    {outputMode === 'buy' && (
+                    {(outputMode === 'buy' || outputMode === 'device') && (
                       <>
                         {[...project.offers, ...project.bundles].length === 0 && <span className="text-sm text-emerald-700">No offers available.</span>}
-                        {[...project.offers, ...project.bundles].map(item => (
+                        {[...project.offers, ...project.bundles].filter(item => hasTag(item, selectionTag)).map(item => (
                           <div 
                             key={item.className}
                             onClick={() => toggleSelection(item.className)}
@@ -1060,10 +1457,25 @@ export default function App() {
                         ))}
                       </>
                     )}
+                    {outputMode === 'owned' && (
+                      <>
+                        {project.entitlements.length === 0 && <span className="text-sm text-emerald-700">No entitlements available.</span>}
+                        {project.entitlements.filter(item => hasTag(item, selectionTag)).map(item => (
+                          <div
+                            key={item.className}
+                            onClick={() => toggleSelection(item.className)}
+                            className={`cursor-pointer px-3 py-1 flex items-center gap-2 border text-sm transition-colors rounded-none ${selectedForGen.has(item.className) ? 'bg-emerald-900/40 border-emerald-500 text-emerald-400' : 'bg-neutral-950 border-emerald-900 text-emerald-700'}`}
+                          >
+                            {selectedForGen.has(item.className) ? <CheckSquare className="w-3 h-3"/> : <Square className="w-3 h-3"/>}
+                            {item.className}
+                          </div>
+                        ))}
+                      </>
+                    )}
                     {outputMode === 'consume' && (
                       <>
                          {project.entitlements.filter(e => e.consumable).length === 0 && <span className="text-sm text-emerald-700">No consumable entitlements available.</span>}
-                         {project.entitlements.filter(e => e.consumable).map(item => (
+                         {project.entitlements.filter(e => e.consumable && hasTag(e, selectionTag)).map(item => (
                           <div 
                             key={item.className}
                             onClick={() => toggleSelection(item.className)}
@@ -1078,6 +1490,30 @@ export default function App() {
                     )}
                   </div>
                   
+                  {outputMode === 'device' && (
+                    <div className="mt-4 border-t border-emerald-800 pt-4 space-y-2">
+                      <div className="text-xs text-emerald-600 uppercase tracking-wider">Bindings</div>
+                      {[
+                        ...project.offers.map(o => ({ name: o.className, kind: 'offer', key: bindingKey('offer', o.className) })),
+                        ...project.bundles.map(b => ({ name: b.className, kind: 'bundle', key: bindingKey('bundle', b.className) }))
+                      ].filter(item => selectedForGen.has(item.name)).map(item => (
+                        <div key={item.key} className="flex items-center justify-between gap-4">
+                          <span className="text-sm text-emerald-400 font-mono">
+                            {item.name} <span className="text-xs text-emerald-700">{item.kind}</span>
+                          </span>
+                          <select
+                            value={deviceBindings[item.key] ?? 'button'}
+                            onChange={(e) => setDeviceBindings({ ...deviceBindings, [item.key]: e.target.value as DeviceBinding })}
+                            className={`${selectClass} w-40`}
+                          >
+                            <option value="button">button_device</option>
+                            <option value="trigger">trigger_device</option>
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {/* New Quantity Selector for Consume Mode */}
                   {outputMode === 'consume' && (
                     <div className="flex items-center gap-4 mt-4 border-t border-emerald-800 pt-4">
@@ -1096,9 +1532,25 @@ export default function App() {
 
               <div className="relative">
                 {/* Changed rounded-md to rounded-none */}
-                <pre className={`bg-black/80 text-emerald-400 p-4 rounded-none overflow-x-auto text-sm font-mono ${cardBorder} shadow-inner`}>
-                  {getOutputCode()}
-                </pre>
+                {verseBlocked && (
+                  <Alert className="bg-red-900/20 border-red-900/50 rounded-none mb-2">
+                    <AlertDescription className="text-red-300">
+                      {errorCount} error{errorCount === 1 ? '' : 's'} must be fixed before this Verse will compile.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {outputMode === 'diff' ? (
+                  <DiffView
+                    key={activeProject.id}
+                    current={getOutputCode()}
+                    snapshot={activeProject.verseSnapshot}
+                    onTakeSnapshot={takeSnapshot}
+                  />
+                ) : (
+                  <pre className={`bg-black/80 text-emerald-400 p-4 rounded-none overflow-x-auto text-sm font-mono ${cardBorder} shadow-inner ${verseBlocked ? 'opacity-50' : ''}`}>
+                    {getOutputCode()}
+                  </pre>
+                )}
               </div>
             </CardContent>
           </Card>
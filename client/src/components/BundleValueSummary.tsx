@@ -0,0 +1,39 @@
+import { AlertTriangle } from 'lucide-react';
+import type { BundleOffer, ProjectData } from '../lib/types';
+import { analyzeBundle, bundleValueWarnings, formatDiscount } from '../lib/bundleValue';
+
+interface BundleValueSummaryProps {
+  project: ProjectData;
+  bundle: BundleOffer;
+  // Also list the warnings, not just flag them
+  detailed?: boolean;
+}
+
+// Bundle price against the sum of its parts
+export function BundleValueSummary({ project, bundle, detailed = false }: BundleValueSummaryProps) {
+  const { value, discount, unitCost, incomplete } = analyzeBundle(project, bundle);
+  const warnings = bundleValueWarnings(project, bundle);
+  if (bundle.offers.length === 0) return null;
+
+  const discountClass = discount === null ? 'text-emerald-700' : discount < 0 ? 'text-red-400' : discount > 0 ? 'text-emerald-400' : 'text-emerald-600';
+
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex flex-wrap gap-x-3 text-emerald-600/80">
+        <span>Value {value}{incomplete ? '+' : ''} V-Bucks</span>
+        {discount !== null && <span className={`font-bold ${discountClass}`}>{formatDiscount(discount)}</span>}
+        {unitCost !== null && <span>{unitCost.toFixed(unitCost % 1 === 0 ? 0 : 1)} per unit</span>}
+        {!detailed && warnings.length > 0 && (
+          <span className="text-amber-400 flex items-center gap-1" title={warnings.join('\n')}>
+            <AlertTriangle className="w-3 h-3" /> {warnings.length}
+          </span>
+        )}
+      </div>
+      {detailed && warnings.map((warning, idx) => (
+        <div key={idx} className="text-amber-400 flex items-start gap-1">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {warning}
+        </div>
+      ))}
+    </div>
+  );
+}
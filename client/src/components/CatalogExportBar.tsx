@@ -0,0 +1,32 @@
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Download } from 'lucide-react';
+import type { ProjectData } from '../lib/types';
+import { exportCatalogCsv, exportCatalogMarkdown, exportCatalogHtml } from '../lib/catalogExport';
+import { downloadFile, toFileName } from '../lib/download';
+import { cardBorder, labelClass, iconButtonClass } from '../lib/styles';
+
+interface CatalogExportBarProps {
+  project: ProjectData;
+  projectName: string;
+}
+
+// Catalog reports for reviewing prices and store text outside the generator
+export function CatalogExportBar({ project, projectName }: CatalogExportBarProps) {
+  const fileName = `${toFileName(projectName)}_catalog`;
+
+  return (
+    <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none flex flex-wrap items-center gap-2`}>
+      <Label className={`${labelClass} mb-0 mr-auto`}>Catalog Report</Label>
+      <Button size="sm" onClick={() => downloadFile(`${fileName}.csv`, exportCatalogCsv(project), 'text/csv')} className={iconButtonClass}>
+        <Download className="w-4 h-4 mr-1" /> CSV
+      </Button>
+      <Button size="sm" onClick={() => downloadFile(`${fileName}.md`, exportCatalogMarkdown(project, projectName), 'text/markdown')} className={iconButtonClass}>
+        <Download className="w-4 h-4 mr-1" /> Markdown
+      </Button>
+      <Button size="sm" onClick={() => downloadFile(`${fileName}.html`, exportCatalogHtml(project, projectName), 'text/html')} className={iconButtonClass}>
+        <Download className="w-4 h-4 mr-1" /> HTML
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { AlertTriangle, Check, Table } from 'lucide-react';
+import type { ProjectData } from '../lib/types';
+import { cardBorder, inputClass, labelClass, selectClass } from '../lib/styles';
+import {
+  CATALOG_FIELDS, readCatalogSheet, guessCatalogMapping, buildCatalogRows, applyCatalogRows,
+  type CatalogMapping, type CatalogSheet
+} from '../lib/catalogImport';
+
+interface CatalogImportPanelProps {
+  project: ProjectData;
+  onImport: (data: ProjectData) => void;
+  onCancel: () => void;
+}
+
+// Paste or upload a CSV/TSV item catalog, map its columns, then add the rows
+// that pass validation to the current project
+export function CatalogImportPanel({ project, onImport, onCancel }: CatalogImportPanelProps) {
+  const [source, setSource] = useState('');
+  const [sheet, setSheet] = useState<CatalogSheet | null>(null);
+  const [mapping, setMapping] = useState<CatalogMapping | null>(null);
+
+  const readColumns = (text: string) => {
+    const read = readCatalogSheet(text);
+    setSheet(read);
+    setMapping(guessCatalogMapping(read.header));
+  };
+
+  const rows = sheet && mapping && mapping.className !== null ? buildCatalogRows(project, sheet, mapping) : [];
+  const failed = rows.filter(row => row.errors.length > 0);
+  const valid = rows.length - failed.length;
+
+  return (
+    <div className={`space-y-4 p-4 mb-6 bg-neutral-900 ${cardBorder} rounded-none`}>
+      <h3 className="text-emerald-400 font-bold uppercase tracking-wide border-b border-emerald-900 pb-2">
+        Import Catalog Spreadsheet
+      </h3>
+
+      {!sheet || !mapping ? (
+        <div>
+          <Label className={labelClass}>CSV / TSV</Label>
+          <Textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            placeholder={'Paste rows with a header line, e.g.\nclass\tname\tdescription\ticon\tmax count\tconsumable\tprice'}
+            className={`${inputClass} font-mono text-xs min-h-[200px]`}
+          />
+          <Input
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (!file) return;
+              const text = await file.text();
+              setSource(text);
+              readColumns(text);
+            }}
+            className={`${inputClass} mt-2`}
+          />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {CATALOG_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <Label className={labelClass}>{label}{required && ' *'}</Label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  <option value="">(not in sheet)</option>
+                  {sheet.header.map((column, idx) => (
+                    <option key={idx} value={idx}>{column || `Column ${idx + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {mapping.className === null ? (
+            <p className="text-amber-400 text-sm">Choose the column that holds class names.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-emerald-600/80 text-sm">
+                {valid} of {rows.length} row{rows.length === 1 ? '' : 's'} ready to import
+                {failed.length > 0 && `; ${failed.length} will be skipped`}.
+              </p>
+              <ul className="max-h-60 overflow-y-auto space-y-1 font-mono text-xs bg-black/60 p-3 border border-emerald-900/50">
+                {rows.map(row => (
+                  <li key={row.line} className={row.errors.length > 0 ? 'text-amber-300' : 'text-emerald-400'}>
+                    {row.errors.length > 0 ? <AlertTriangle className="w-3 h-3 inline mr-1" /> : <Check className="w-3 h-3 inline mr-1" />}
+                    Row {row.line} ({row.className || 'no class name'})
+                    {row.errors.length > 0 ? `: ${row.errors.join('; ')}` : row.offer ? ` + ${row.offer.className}` : ''}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-2">
+        {!sheet ? (
+          <Button
+            onClick={() => readColumns(source)}
+            disabled={!source.trim()}
+            className={`flex-1 bg-emerald-700 hover:bg-emerald-600 text-white ${cardBorder} font-bold rounded-none`}
+          >
+            <Table className="w-4 h-4 mr-2" /> Map Columns
+          </Button>
+        ) : (
+          <>
+            <Button
+              onClick={() => onImport(applyCatalogRows(project, rows))}
+              disabled={valid === 0}
+              className={`flex-1 bg-emerald-700 hover:bg-emerald-600 text-white ${cardBorder} font-bold rounded-none`}
+            >
+              <Check className="w-4 h-4 mr-2" /> Import {valid} Row{valid === 1 ? '' : 's'}
+            </Button>
+            <Button onClick={() => setSheet(null)} variant="outline" className="border-emerald-800 text-emerald-600 hover:bg-emerald-900/20 hover:text-emerald-400 rounded-none">
+              Back
+            </Button>
+          </>
+        )}
+        <Button onClick={onCancel} variant="outline" className="flex-1 border-emerald-800 text-emerald-600 hover:bg-emerald-900/20 hover:text-emerald-400 rounded-none">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { RotateCcw } from 'lucide-react';
+import type { CodegenSettings, ProjectData } from '../lib/types';
+import { defaultCodegen } from '../lib/storage';
+import { modulePath } from '../lib/verseCodegen';
+import { validateCodegen, type CodegenField } from '../lib/validation';
+import { cardBorder, inputClass, labelClass, iconButtonClass } from '../lib/styles';
+
+interface CodegenSettingsPanelProps {
+  project: ProjectData;
+  setProject: (update: (prev: ProjectData) => ProjectData) => void;
+}
+
+const MODULE_FIELDS: Array<{ field: CodegenField; label: string }> = [
+  { field: 'infoModule', label: 'Info Module' },
+  { field: 'entitlementsModule', label: 'Entitlements Module' },
+  { field: 'offersModule', label: 'Offers Module' },
+  { field: 'bundlesModule', label: 'Bundles Module' }
+];
+
+export function CodegenSettingsPanel({ project, setProject }: CodegenSettingsPanelProps) {
+  const settings = project.codegen;
+  const errors = validateCodegen(settings);
+
+  const update = (patch: Partial<CodegenSettings>) =>
+    setProject(prev => ({ ...prev, codegen: { ...prev.codegen, ...patch } }));
+
+  const fieldError = (field: CodegenField) =>
+    errors[field] && <p className="text-xs text-red-400 mt-1">{errors[field]}</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+        <div>
+          <Label className={labelClass}>Namespace</Label>
+          <Input
+            value={settings.namespace}
+            onChange={(e) => update({ namespace: e.target.value.trim() })}
+            placeholder="Leave empty for top-level modules"
+            className={`${inputClass} font-mono`}
+          />
+          {fieldError('namespace')}
+          <p className="text-xs text-emerald-700 mt-1">
+            Wraps the single-file output in these modules and becomes the folder path when split by module.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {MODULE_FIELDS.map(({ field, label }) => (
+            <div key={field}>
+              <Label className={labelClass}>{label}</Label>
+              <Input
+                value={settings[field]}
+                onChange={(e) => update({ [field]: e.target.value.trim() })}
+                className={`${inputClass} font-mono`}
+              />
+              {fieldError(field)}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-emerald-700">
+          Buy, consume and device code reference offers as <span className="font-mono text-emerald-500">{modulePath(settings, 'offersModule')}.MyOffer</span>
+        </p>
+      </div>
+
+      <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-2`}>
+        <Label className={labelClass}>Header</Label>
+        <Textarea
+          value={settings.header}
+          onChange={(e) => update({ header: e.target.value })}
+          placeholder="No header comment"
+          className={`${inputClass} font-mono text-xs min-h-[80px]`}
+        />
+        <p className="text-xs text-emerald-700">Each line is written as a # comment at the top of every generated file.</p>
+      </div>
+
+      <Button size="sm" onClick={() => update(defaultCodegen())} className={iconButtonClass}>
+        <RotateCcw className="w-4 h-4 mr-1" /> Reset to defaults
+      </Button>
+    </div>
+  );
+}
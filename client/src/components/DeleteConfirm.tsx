@@ -0,0 +1,47 @@
+import { Button } from './ui/button';
+import { Trash2 } from 'lucide-react';
+import type { DeletePlan } from '../lib/references';
+import { cardBorder } from '../lib/styles';
+
+interface DeleteConfirmProps {
+  plan: DeletePlan;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const SECTION_LABELS: Record<DeletePlan['section'], string> = {
+  entitlementInfos: 'info module',
+  entitlements: 'entitlement',
+  offers: 'offer',
+  bundles: 'bundle'
+};
+
+// Shown before deleting something other items still reference
+export function DeleteConfirm({ plan, onConfirm, onCancel }: DeleteConfirmProps) {
+  return (
+    <div className="space-y-3 p-4 mb-4 bg-red-950/30 border border-red-900/60 rounded-none">
+      <h3 className="text-red-300 font-bold uppercase tracking-wide border-b border-red-900/60 pb-2">
+        Delete {SECTION_LABELS[plan.section]} <span className="font-mono normal-case">{plan.name}</span>?
+      </h3>
+      <p className="text-sm text-emerald-100/80">
+        {plan.dependents.length} item{plan.dependents.length === 1 ? '' : 's'} depend{plan.dependents.length === 1 ? 's' : ''} on it and will be changed:
+      </p>
+      <ul className="space-y-1 text-sm font-mono max-h-48 overflow-y-auto">
+        {plan.dependents.map((d, idx) => (
+          <li key={idx} className="flex justify-between gap-2 text-emerald-300">
+            <span>{SECTION_LABELS[d.section]} {d.name}</span>
+            <span className={d.effect === 'deleted' ? 'text-red-400' : 'text-amber-400'}>{d.effect}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2 pt-1">
+        <Button onClick={onConfirm} variant="destructive" className="flex-1 bg-red-900/60 hover:bg-red-800/70 border border-red-800 text-red-100 font-bold rounded-none">
+          <Trash2 className="w-4 h-4 mr-2" /> Delete All
+        </Button>
+        <Button onClick={onCancel} variant="outline" className={`flex-1 ${cardBorder} text-emerald-600 hover:bg-emerald-900/20 hover:text-emerald-400 rounded-none`}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+import { Camera } from 'lucide-react';
+import type { VerseSnapshot } from '../lib/storage';
+import { diffLines, type DiffRow, type DiffLine } from '../lib/diff';
+import { cardBorder, inputClass } from '../lib/styles';
+
+interface DiffViewProps {
+  current: string;
+  snapshot?: VerseSnapshot;
+  onTakeSnapshot: () => void;
+}
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  added: { left: 'bg-neutral-900/60', right: 'bg-emerald-900/40 text-emerald-200' },
+  removed: { left: 'bg-red-900/30 text-red-200', right: 'bg-neutral-900/60' },
+  changed: { left: 'bg-amber-900/25 text-amber-100', right: 'bg-amber-900/25 text-amber-100' }
+};
+
+const Cell = ({ line, className }: { line?: DiffLine; className: string }) => (
+  <div className={`flex min-w-0 ${className}`}>
+    <span className="w-10 shrink-0 text-right pr-2 text-emerald-800 select-none">{line?.number ?? ''}</span>
+    <span className="whitespace-pre overflow-hidden text-ellipsis">{line?.text ?? ''}</span>
+  </div>
+);
+
+// Side-by-side comparison of the current Verse against a snapshot or pasted file
+export function DiffView({ current, snapshot, onTakeSnapshot }: DiffViewProps) {
+  const [source, setSource] = useState<'snapshot' | 'pasted'>(snapshot ? 'snapshot' : 'pasted');
+  const [pasted, setPasted] = useState('');
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const before = source === 'snapshot' ? snapshot?.code ?? '' : pasted;
+  const rows = useMemo(() => (before ? diffLines(before, current) : []), [before, current]);
+  const changed = rows.filter(r => r.kind !== 'same').length;
+  const visible = changesOnly
+    // Keep a couple of lines of context around each change
+    ? rows.filter((_, idx) => rows.slice(Math.max(0, idx - 2), idx + 3).some(r => r.kind !== 'same'))
+    : rows;
+
+  const tabClass = (active: boolean) =>
+    `flex-1 rounded-none text-xs uppercase font-bold ${active ? 'bg-emerald-800 text-white' : 'bg-neutral-950 text-emerald-700 hover:text-emerald-400'} ${cardBorder}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => setSource('snapshot')} className={tabClass(source === 'snapshot')}>
+          Last Snapshot
+        </Button>
+        <Button size="sm" onClick={() => setSource('pasted')} className={tabClass(source === 'pasted')}>
+          Pasted File
+        </Button>
+        <Button size="sm" onClick={onTakeSnapshot} title="Remember the current output as the comparison baseline" className={`rounded-none ${cardBorder} bg-emerald-900/30 hover:bg-emerald-800/50 text-emerald-400`}>
+          <Camera className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {source === 'snapshot' && (
+        <p className="text-xs text-emerald-600">
+          {snapshot
+            ? `Comparing against the output copied on ${new Date(snapshot.takenAt).toLocaleString()}.`
+            : 'No snapshot yet. Copying the Verse output or pressing the camera button records one.'}
+        </p>
+      )}
+      {source === 'pasted' && (
+        <Textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="Paste the .verse file currently in your UEFN project"
+          className={`${inputClass} font-mono text-xs min-h-[100px]`}
+        />
+      )}
+
+      {before && (
+        <>
+          <div className="flex items-center justify-between text-xs">
+            <span className={changed ? 'text-amber-400' : 'text-emerald-500'}>
+              {changed ? `${changed} line${changed === 1 ? '' : 's'} differ` : 'No differences'}
+            </span>
+            <div className="flex items-center gap-2">
+              <Label className="text-emerald-600/80 text-xs cursor-pointer">Changes only</Label>
+              <Switch checked={changesOnly} onCheckedChange={setChangesOnly} className="data-[state=checked]:bg-emerald-500" />
+            </div>
+          </div>
+          <div className={`bg-black/80 ${cardBorder} font-mono text-xs overflow-x-auto max-h-[600px] overflow-y-auto`}>
+            <div className="grid grid-cols-2 sticky top-0 bg-neutral-900 text-emerald-600 uppercase tracking-wider border-b border-emerald-900">
+              <span className="px-2 py-1">{source === 'snapshot' ? 'Snapshot' : 'Pasted'}</span>
+              <span className="px-2 py-1 border-l border-emerald-900">Current</span>
+            </div>
+            {visible.map((row, idx) => (
+              <div key={idx} className="grid grid-cols-2 text-emerald-400/80">
+                <Cell line={row.left} className={ROW_STYLES[row.kind].left} />
+                <Cell line={row.right} className={`border-l border-emerald-900/50 ${ROW_STYLES[row.kind].right}`} />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Alert, AlertDescription } from './ui/alert';
+import { Save } from 'lucide-react';
+import type { ProjectData } from '../lib/types';
+import type { ExchangeRate } from '../lib/pricing';
+import type { TexturePreviews } from '../lib/textures';
+import { planEntitlementWithOffer, addEntitlementWithOffer, type EntitlementOfferDraft } from '../lib/offerLinks';
+import { TextLimitHint } from './TextLimitHint';
+import { IconPicker } from './IconPicker';
+import { PriceInput } from './PriceInput';
+import { cardBorder, inputClass, labelClass } from '../lib/styles';
+
+interface EntitlementOfferWizardProps {
+  project: ProjectData;
+  exchangeRates: ExchangeRate[];
+  texturePreviews: TexturePreviews;
+  onCreate: (data: ProjectData) => void;
+  onCancel: () => void;
+}
+
+// One form for the usual case of an item sold by a single offer: creates the
+// info module, the entitlement and an offer linked to it
+export function EntitlementOfferWizard({ project, exchangeRates, texturePreviews, onCreate, onCancel }: EntitlementOfferWizardProps) {
+  const [draft, setDraft] = useState<EntitlementOfferDraft>({
+    className: `new_item_${project.entitlements.length + 1}`,
+    name: '',
+    description: '',
+    shortDescription: '',
+    icon: 'default_icon',
+    maxCount: 1,
+    consumable: false,
+    price: { type: 'vbucks', amount: 100 }
+  });
+
+  const plan = planEntitlementWithOffer(project, draft);
+
+  return (
+    <div className={`space-y-4 p-4 bg-neutral-900 ${cardBorder} rounded-none`}>
+      <h3 className="text-emerald-400 font-bold uppercase tracking-wide border-b border-emerald-900 pb-2">
+        New Entitlement + Offer
+      </h3>
+
+      {plan.errors.length > 0 && (
+        <Alert className="bg-red-900/20 border-red-900/50 rounded-none">
+          <AlertDescription className="text-red-300">{plan.errors.join(', ')}</AlertDescription>
+        </Alert>
+      )}
+
+      <div>
+        <Label className={labelClass}>Class Name (snake_case)</Label>
+        <Input
+          value={draft.className}
+          onChange={(e) => setDraft({ ...draft, className: e.target.value })}
+          className={`${inputClass} font-mono`}
+          placeholder="speed_boost"
+        />
+        <p className="text-xs text-emerald-700 mt-1">
+          Creates {plan.info.moduleName}, {draft.className || '…'} and {plan.offer.className}
+        </p>
+      </div>
+      <div>
+        <Label className={labelClass}>Display Name</Label>
+        <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+        <TextLimitHint field="name" text={draft.name} />
+      </div>
+      <div>
+        <Label className={labelClass}>Description</Label>
+        <Input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className={inputClass} />
+        <TextLimitHint field="description" text={draft.description} />
+      </div>
+      <div>
+        <Label className={labelClass}>Short Description</Label>
+        <Input value={draft.shortDescription} onChange={(e) => setDraft({ ...draft, shortDescription: e.target.value })} className={inputClass} />
+        <TextLimitHint field="shortDescription" text={draft.shortDescription} />
+      </div>
+      <div>
+        <Label className={labelClass}>Icon Texture</Label>
+        <IconPicker value={draft.icon} onChange={(icon) => setDraft({ ...draft, icon })} textures={project.textures} previews={texturePreviews} />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className={labelClass}>Max Count</Label>
+          <Input
+            type="number"
+            value={draft.maxCount}
+            onChange={(e) => setDraft({ ...draft, maxCount: parseInt(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex flex-col justify-end">
+          <div className={`flex items-center justify-between p-2 bg-neutral-950 ${cardBorder} rounded-none h-10`}>
+            <Label className="text-emerald-600/80 text-sm mb-0 cursor-pointer">Consumable</Label>
+            <Switch
+              checked={draft.consumable}
+              onCheckedChange={(checked: boolean) => setDraft({ ...draft, consumable: checked })}
+              className="data-[state=checked]:bg-emerald-500"
+            />
+          </div>
+        </div>
+      </div>
+      <PriceInput
+        price={draft.price}
+        tiers={project.priceTiers}
+        exchangeRates={exchangeRates}
+        onChange={(price) => setDraft({ ...draft, price })}
+      />
+
+      <div className="flex gap-2 pt-2">
+        <Button
+          onClick={() => onCreate(addEntitlementWithOffer(project, plan))}
+          disabled={plan.errors.length > 0}
+          className={`flex-1 bg-emerald-700 hover:bg-emerald-600 text-white ${cardBorder} font-bold rounded-none`}
+        >
+          <Save className="w-4 h-4 mr-2" /> Create Both
+        </Button>
+        <Button onClick={onCancel} variant="outline" className="flex-1 border-emerald-800 text-emerald-600 hover:bg-emerald-900/20 hover:text-emerald-400 rounded-none">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { ChevronDown, ChevronRight, History, Redo2, Undo2 } from 'lucide-react';
+import type { ProjectHistory } from '../lib/history';
+import { cardBorder, iconButtonClass } from '../lib/styles';
+
+interface HistoryPanelProps {
+  history: ProjectHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Undo/redo controls plus the list of recorded steps, newest first
+export function HistoryPanel({ history, onUndo, onRedo }: HistoryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const lastDone = history.past[history.past.length - 1];
+  const lastUndone = history.future[history.future.length - 1];
+
+  return (
+    <div className={`mb-6 bg-neutral-900/50 ${cardBorder} rounded-none`}>
+      <div className="flex flex-wrap items-center gap-2 p-3">
+        <Button size="sm" onClick={() => setOpen(!open)} variant="ghost" className="text-emerald-600 hover:text-emerald-400 hover:bg-emerald-900/20 rounded-none px-2">
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <History className="w-4 h-4 mr-1" />
+          <span className="text-xs uppercase tracking-wider font-bold">History ({history.past.length})</span>
+        </Button>
+        <Button
+          size="sm"
+          onClick={onUndo}
+          disabled={!lastDone}
+          title={lastDone ? `Undo: ${lastDone.label} (Ctrl+Z)` : 'Nothing to undo'}
+          className={iconButtonClass}
+        >
+          <Undo2 className="w-4 h-4 mr-1" /> Undo
+        </Button>
+        <Button
+          size="sm"
+          onClick={onRedo}
+          disabled={!lastUndone}
+          title={lastUndone ? `Redo: ${lastUndone.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          className={iconButtonClass}
+        >
+          <Redo2 className="w-4 h-4 mr-1" /> Redo
+        </Button>
+        {lastDone && <span className="text-emerald-700 text-xs font-mono truncate">Last: {lastDone.label}</span>}
+      </div>
+      {open && (
+        <ul className="max-h-60 overflow-y-auto text-sm border-t border-emerald-900/50">
+          {history.past.length === 0 && history.future.length === 0 && (
+            <li className="px-3 py-1.5 text-emerald-700">No changes recorded yet.</li>
+          )}
+          {history.future.map((step, idx) => (
+            <li key={`future-${idx}`} className="px-3 py-1.5 flex gap-3 text-emerald-800 line-through border-b border-emerald-950">
+              <span className="font-mono text-xs shrink-0 mt-0.5">{new Date(step.at).toLocaleTimeString()}</span>
+              <span>{step.label}</span>
+            </li>
+          ))}
+          {[...history.past].reverse().map((step, idx) => (
+            <li key={`past-${idx}`} className="px-3 py-1.5 flex gap-3 text-emerald-100/90 border-b border-emerald-950 last:border-b-0">
+              <span className="font-mono text-xs text-emerald-600 shrink-0 mt-0.5">{new Date(step.at).toLocaleTimeString()}</span>
+              <span>{step.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Input } from './ui/input';
+import { Image } from 'lucide-react';
+import type { TextureAsset } from '../lib/types';
+import { searchTextures, type TexturePreviews } from '../lib/textures';
+import { inputClass } from '../lib/styles';
+
+interface IconPickerProps {
+  value: string;
+  onChange: (path: string) => void;
+  textures: TextureAsset[];
+  previews: TexturePreviews;
+}
+
+const MAX_RESULTS = 50;
+
+function Thumbnail({ preview }: { preview?: string }) {
+  return (
+    <div className="w-8 h-8 shrink-0 bg-neutral-950 border border-emerald-900 flex items-center justify-center">
+      {preview
+        ? <img src={preview} alt="" className="max-w-full max-h-full" />
+        : <Image className="w-4 h-4 text-emerald-800" />}
+    </div>
+  );
+}
+
+// Free text until the project has a texture registry, then a searchable list
+export function IconPicker({ value, onChange, textures, previews }: IconPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  if (textures.length === 0) {
+    return <Input value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} />;
+  }
+
+  const current = textures.find(t => t.path === value);
+  const results = searchTextures(textures, query).slice(0, MAX_RESULTS);
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2">
+        <Thumbnail preview={current && previews[current.path]} />
+        <Input
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => {
+            setQuery('');
+            setOpen(true);
+          }}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setOpen(false);
+          }}
+          placeholder="Search textures…"
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+      {!current && <p className="text-xs text-red-400 mt-1">Not in the texture registry</p>}
+      {open && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 max-h-64 overflow-y-auto bg-neutral-950 border border-emerald-800 shadow-lg">
+          {results.length === 0 && <li className="px-3 py-2 text-sm text-emerald-700">No matching textures</li>}
+          {results.map(texture => (
+            <li
+              key={texture.path}
+              // Keep focus in the input so its blur doesn't close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onChange(texture.path);
+                setOpen(false);
+              }}
+              className={`px-2 py-1 flex items-center gap-2 cursor-pointer text-sm font-mono hover:bg-emerald-900/30 ${texture.path === value ? 'text-emerald-300' : 'text-emerald-500'}`}
+            >
+              <Thumbnail preview={previews[texture.path]} />
+              {texture.path}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Button } from './ui/button';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { cardBorder } from '../lib/styles';
+
+interface ImportReviewProps {
+  title: string;
+  // Set when nothing could be imported at all
+  error?: string;
+  problems: string[];
+  onConfirm?: () => void;
+  onCancel: () => void;
+}
+
+// Lists every problem an importer found so the user can decide whether to keep the result
+export function ImportReview({ title, error, problems, onConfirm, onCancel }: ImportReviewProps) {
+  return (
+    <div className={`p-4 mb-6 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+      <h3 className="text-emerald-400 font-bold uppercase tracking-wide border-b border-emerald-900 pb-2 flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-amber-400" /> {title}
+      </h3>
+      {error ? (
+        <Alert className="bg-red-900/20 border-red-900/50 rounded-none">
+          <AlertDescription className="text-red-300">{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <p className="text-emerald-600/80 text-sm">
+            Found {problems.length} problem{problems.length === 1 ? '' : 's'}. Review them before importing.
+          </p>
+          <ul className="max-h-60 overflow-y-auto space-y-1 font-mono text-xs text-amber-300 bg-black/60 p-3 border border-emerald-900/50">
+            {problems.map((problem, idx) => (
+              <li key={idx}>{problem}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      <div className="flex gap-2">
+        {onConfirm && !error && (
+          <Button onClick={onConfirm} className={`flex-1 bg-emerald-700 hover:bg-emerald-600 text-white ${cardBorder} font-bold rounded-none`}>
+            <Check className="w-4 h-4 mr-2" /> Import Anyway
+          </Button>
+        )}
+        <Button onClick={onCancel} variant="outline" className="flex-1 border-emerald-800 text-emerald-600 hover:bg-emerald-900/20 hover:text-emerald-400 rounded-none">
+          <X className="w-4 h-4 mr-2" /> {error ? 'Dismiss' : 'Cancel'}
+        </Button>
+      </div>
+    </div>
+  );
+}
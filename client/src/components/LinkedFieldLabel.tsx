@@ -0,0 +1,36 @@
+import { Label } from './ui/label';
+import { Link2, RotateCcw } from 'lucide-react';
+import type { EntitlementOffer, LinkedOfferField } from '../lib/types';
+import { isInherited } from '../lib/offerLinks';
+import { labelClass } from '../lib/styles';
+
+interface LinkedFieldLabelProps {
+  label: string;
+  offer: EntitlementOffer;
+  field: LinkedOfferField;
+  onReset: () => void;
+}
+
+// Field label on the offer editor showing whether a linked offer inherits the value
+export function LinkedFieldLabel({ label, offer, field, onReset }: LinkedFieldLabelProps) {
+  if (!offer.linked) return <Label className={labelClass}>{label}</Label>;
+  return (
+    <div className="flex items-center justify-between mb-1">
+      <Label className={`${labelClass} mb-0`}>{label}</Label>
+      {isInherited(offer, field) ? (
+        <span className="flex items-center gap-1 text-xs text-emerald-700">
+          <Link2 className="w-3 h-3" /> From {offer.entitlementType}
+        </span>
+      ) : (
+        <button
+          type="button"
+          onClick={onReset}
+          title="Use the entitlement's value again"
+          className="flex items-center gap-1 text-xs text-amber-400 hover:text-amber-300"
+        >
+          Overridden <RotateCcw className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
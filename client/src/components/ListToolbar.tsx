@@ -0,0 +1,97 @@
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { X } from 'lucide-react';
+import type { ProjectSection } from '../lib/validation';
+import { emptyListQuery, hasPrice, isListFiltered, type ListQuery, type ListSort } from '../lib/listQuery';
+import { cardBorder, inputClass, selectClass, iconButtonClass } from '../lib/styles';
+
+interface ListToolbarProps {
+  section: ProjectSection;
+  query: ListQuery;
+  onChange: (query: ListQuery) => void;
+  tags: string[];
+  shown: number;
+  total: number;
+}
+
+const parseBound = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+// Search, filter and sort controls above an editor list
+export function ListToolbar({ section, query, onChange, tags, shown, total }: ListToolbarProps) {
+  const priced = hasPrice(section);
+  const set = (patch: Partial<ListQuery>) => onChange({ ...query, ...patch });
+
+  return (
+    <div className={`p-2 bg-neutral-900 ${cardBorder} rounded-none space-y-2`}>
+      <div className="flex gap-2">
+        <Input
+          value={query.search}
+          onChange={(e) => set({ search: e.target.value })}
+          placeholder="Search names, display names and tags…"
+          className={inputClass}
+        />
+        <select
+          value={query.sort}
+          onChange={(e) => set({ sort: e.target.value as ListSort })}
+          className={`${selectClass} w-40`}
+        >
+          <option value="created">Creation order</option>
+          <option value="name">Name</option>
+          {priced && <option value="price">Price</option>}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select value={query.tag} onChange={(e) => set({ tag: e.target.value })} className={`${selectClass} w-40`}>
+          <option value="">Any tag</option>
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        {section === 'entitlements' && (
+          <select
+            value={query.consumable}
+            onChange={(e) => set({ consumable: e.target.value as ListQuery['consumable'] })}
+            className={`${selectClass} w-40`}
+          >
+            <option value="any">Any kind</option>
+            <option value="consumable">Consumable</option>
+            <option value="permanent">Permanent</option>
+          </select>
+        )}
+        {priced && (
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={query.minPrice ?? ''}
+              onChange={(e) => set({ minPrice: parseBound(e.target.value) })}
+              placeholder="Min"
+              className={`${inputClass} w-20`}
+            />
+            <span className="text-emerald-700">–</span>
+            <Input
+              type="number"
+              value={query.maxPrice ?? ''}
+              onChange={(e) => set({ maxPrice: parseBound(e.target.value) })}
+              placeholder="Max"
+              className={`${inputClass} w-20`}
+            />
+            <span className="text-xs text-emerald-700">V-Bucks</span>
+          </div>
+        )}
+        <label className="flex items-center gap-1 text-emerald-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={query.unreferencedOnly}
+            onChange={(e) => set({ unreferencedOnly: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          Unreferenced only
+        </label>
+        <span className="ml-auto text-xs text-emerald-700">{shown} of {total}</span>
+        {isListFiltered(query) && (
+          <Button size="sm" title="Clear filters" onClick={() => onChange({ ...emptyListQuery(), sort: query.sort })} className={iconButtonClass}>
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
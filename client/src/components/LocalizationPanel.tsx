@@ -0,0 +1,170 @@
+import { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+import { ImportReview } from './ImportReview';
+import { Plus, X, Star, Download, Upload } from 'lucide-react';
+import type { ProjectData } from '../lib/types';
+import {
+  collectStrings, textFor, missingLocales, isValidLocale, addLocale, removeLocale, setDefaultLocale,
+  setTranslation, exportStringsCsv, importStringsCsv, exportXliff, importXliff, type StringImport
+} from '../lib/localization';
+import { downloadFile, toFileName } from '../lib/download';
+import { cardBorder, inputClass, labelClass, selectClass, iconButtonClass } from '../lib/styles';
+
+interface LocalizationPanelProps {
+  project: ProjectData;
+  projectName: string;
+  setProject: (update: (prev: ProjectData) => ProjectData) => void;
+}
+
+export function LocalizationPanel({ project, projectName, setProject }: LocalizationPanelProps) {
+  const { defaultLocale, locales } = project.localization;
+  const [newLocale, setNewLocale] = useState('');
+  const [targetLocale, setTargetLocale] = useState(locales.find(l => l !== defaultLocale) ?? defaultLocale);
+  const [missingOnly, setMissingOnly] = useState(false);
+  const [pendingImport, setPendingImport] = useState<StringImport | null>(null);
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const strings = collectStrings(project);
+  const target = locales.includes(targetLocale) ? targetLocale : defaultLocale;
+  const visible = missingOnly ? strings.filter(s => missingLocales(s.message, project).includes(target)) : strings;
+
+  const submitLocale = () => {
+    const code = newLocale.trim();
+    if (!isValidLocale(code)) return;
+    setProject(prev => addLocale(prev, code));
+    setTargetLocale(code);
+    setNewLocale('');
+  };
+
+  const applyImport = (result: StringImport) => {
+    setProject(() => result.data);
+    setPendingImport(null);
+    setImportNote(`Updated ${result.updated} translation${result.updated === 1 ? '' : 's'}`);
+  };
+
+  const importFile = async (file: File) => {
+    const text = await file.text();
+    const result = /\.(xlf|xliff|xml)$/i.test(file.name) ? importXliff(project, text) : importStringsCsv(project, text);
+    setImportNote(null);
+    if (result.problems.length > 0) setPendingImport(result);
+    else applyImport(result);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+        <Label className={labelClass}>Locales</Label>
+        <div className="flex flex-wrap gap-2">
+          {locales.map(locale => {
+            const missing = strings.filter(s => missingLocales(s.message, project).includes(locale)).length;
+            return (
+              <div key={locale} className={`flex items-center gap-2 px-2 py-1 border text-sm rounded-none ${locale === defaultLocale ? 'border-emerald-500 text-emerald-300' : 'border-emerald-900 text-emerald-500'}`}>
+                <span className="font-mono">{locale}</span>
+                {locale === defaultLocale ? (
+                  <Star className="w-3 h-3 fill-current" aria-label="Default locale" />
+                ) : (
+                  <>
+                    {missing > 0 && <span className="text-amber-400 text-xs">{missing} missing</span>}
+                    <button title="Make default (drives the Verse output)" onClick={() => setProject(prev => setDefaultLocale(prev, locale))}>
+                      <Star className="w-3 h-3" />
+                    </button>
+                    <button title="Remove locale and its translations" onClick={() => setProject(prev => removeLocale(prev, locale))}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newLocale}
+            onChange={(e) => setNewLocale(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitLocale()}
+            placeholder="fr, de, pt-BR…"
+            className={`${inputClass} font-mono`}
+          />
+          <Button size="sm" onClick={submitLocale} disabled={!isValidLocale(newLocale.trim())} className={`${iconButtonClass} h-9`}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => downloadFile(`${toFileName(projectName)}_strings.csv`, exportStringsCsv(project), 'text/csv')} className={iconButtonClass}>
+          <Download className="w-4 h-4 mr-1" /> CSV
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => downloadFile(`${toFileName(projectName)}_strings.xlf`, exportXliff(project), 'application/xliff+xml')}
+          disabled={locales.length < 2}
+          className={iconButtonClass}
+        >
+          <Download className="w-4 h-4 mr-1" /> XLIFF
+        </Button>
+        <Button size="sm" onClick={() => fileInput.current?.click()} className={iconButtonClass}>
+          <Upload className="w-4 h-4 mr-1" /> Import CSV / XLIFF
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.xlf,.xliff,.xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+        {importNote && <span className="text-sm text-emerald-500 self-center">{importNote}</span>}
+      </div>
+
+      {pendingImport && (
+        <ImportReview
+          title={`Importing ${pendingImport.updated} translation${pendingImport.updated === 1 ? '' : 's'}`}
+          problems={pendingImport.problems}
+          onConfirm={() => applyImport(pendingImport)}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      <div className="flex items-center gap-3">
+        <Label className={`${labelClass} mb-0`}>Translate to</Label>
+        <select value={target} onChange={(e) => setTargetLocale(e.target.value)} className={`${selectClass} w-auto`}>
+          {locales.map(locale => <option key={locale} value={locale}>{locale}</option>)}
+        </select>
+        <div className="flex items-center gap-2 ml-auto">
+          <Label className="text-emerald-600/80 text-sm cursor-pointer">Missing only</Label>
+          <Switch checked={missingOnly} onCheckedChange={setMissingOnly} className="data-[state=checked]:bg-emerald-500" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {strings.length === 0 && <p className="text-sm text-emerald-700">Add info modules or bundles to get strings to translate.</p>}
+        {visible.map(entry => {
+          const missing = missingLocales(entry.message, project).includes(target);
+          return (
+            <div key={entry.id} className={`p-2 bg-neutral-900 border rounded-none ${missing ? 'border-amber-700/60' : 'border-emerald-900/50'}`}>
+              <div className="font-mono text-xs text-emerald-600 mb-1">{entry.id}</div>
+              {target !== defaultLocale && (
+                <div className="text-sm text-emerald-100/60 mb-1 whitespace-pre-wrap">{entry.message.text || <em>No {defaultLocale} text</em>}</div>
+              )}
+              <Textarea
+                value={textFor(entry.message, target, defaultLocale)}
+                onChange={(e) => setProject(prev => setTranslation(prev, entry, target, e.target.value))}
+                placeholder={missing ? `Missing ${target} translation` : undefined}
+                className={`${inputClass} min-h-[36px] text-sm`}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
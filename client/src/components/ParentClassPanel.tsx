@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Plus, Trash2 } from 'lucide-react';
+import type { ProjectData } from '../lib/types';
+import {
+  BUILTIN_PARENT_CLASSES, addParentClass, setParentClassParent, renameParentClass, removeParentClass,
+  parentClassUsage, wouldCreateParentCycle, isBuiltinParent
+} from '../lib/parentClasses';
+import { uniqueName } from '../lib/naming';
+import { cardBorder, inputClass, labelClass, selectClass, iconButtonClass, deleteButtonClass } from '../lib/styles';
+
+interface ParentClassPanelProps {
+  project: ProjectData;
+  setProject: (update: (prev: ProjectData) => ProjectData) => void;
+}
+
+// Abstract entitlement classes the user defines, generated ahead of the entitlements
+export function ParentClassPanel({ project, setProject }: ParentClassPanelProps) {
+  // Names are edited as drafts and applied on blur, like price tiers
+  const [nameDrafts, setNameDrafts] = useState<Record<number, string>>({});
+
+  const commitName = (idx: number) => {
+    const draft = nameDrafts[idx];
+    if (draft === undefined) return;
+    const name = draft.trim();
+    const current = project.parentClasses[idx].name;
+    if (name && !isBuiltinParent(name) && !project.parentClasses.some((c, i) => i !== idx && c.name === name)) {
+      setProject(prev => renameParentClass(prev, current, name));
+    }
+    setNameDrafts(drafts => {
+      const next = { ...drafts };
+      delete next[idx];
+      return next;
+    });
+  };
+
+  return (
+    <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+      <div className="flex items-center justify-between">
+        <Label className={`${labelClass} mb-0`}>Class Hierarchy</Label>
+        <Button
+          size="sm"
+          onClick={() => setProject(prev => addParentClass(prev, {
+            name: uniqueName('custom_entitlement', prev.parentClasses.map(c => c.name)),
+            parent: 'island_entitlement'
+          }))}
+          className={iconButtonClass}
+        >
+          <Plus className="w-4 h-4 mr-1" /> Add Class
+        </Button>
+      </div>
+      {project.parentClasses.length === 0 && (
+        <p className="text-sm text-emerald-700">
+          No custom classes. Add abstract classes here to group entitlements beyond {BUILTIN_PARENT_CLASSES.join(' and ')}.
+        </p>
+      )}
+      {project.parentClasses.map((cls, idx) => {
+        const usage = parentClassUsage(project, cls.name);
+        // Only parents that keep the hierarchy a tree
+        const candidates = project.parentClasses
+          .filter(c => !wouldCreateParentCycle(project.parentClasses, cls.name, c.name))
+          .map(c => c.name);
+        return (
+          <div key={idx} className="flex gap-2 items-center">
+            <Input
+              value={nameDrafts[idx] ?? cls.name}
+              onChange={(e) => setNameDrafts({ ...nameDrafts, [idx]: e.target.value })}
+              onBlur={() => commitName(idx)}
+              onKeyDown={(e) => e.key === 'Enter' && commitName(idx)}
+              className={`${inputClass} font-mono`}
+            />
+            <span className="text-xs text-emerald-600 shrink-0">extends</span>
+            <select
+              value={cls.parent}
+              onChange={(e) => setProject(prev => setParentClassParent(prev, cls.name, e.target.value))}
+              className={`${selectClass} font-mono`}
+            >
+              {BUILTIN_PARENT_CLASSES.map(name => <option key={name} value={name}>{name}</option>)}
+              {candidates.map(name => <option key={name} value={name}>{name}</option>)}
+              {!isBuiltinParent(cls.parent) && !candidates.includes(cls.parent) && (
+                <option value={cls.parent}>{cls.parent} (invalid)</option>
+              )}
+            </select>
+            <span className="text-xs text-emerald-600 w-16 shrink-0">{usage} use{usage === 1 ? '' : 's'}</span>
+            <Button
+              size="sm"
+              onClick={() => setProject(prev => removeParentClass(prev, cls.name))}
+              title="Remove class; whatever extends it moves up to its parent"
+              className={deleteButtonClass}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import type { PriceDimension, PriceTier } from '../lib/types';
+import { formatMoney, toRealMoney, type ExchangeRate } from '../lib/pricing';
+import { inputClass, labelClass, selectClass } from '../lib/styles';
+
+interface PriceInputProps {
+  price: PriceDimension;
+  tiers: PriceTier[];
+  exchangeRates: ExchangeRate[];
+  onChange: (price: PriceDimension) => void;
+}
+
+// V-Bucks amount, either typed in or taken from a named tier
+export function PriceInput({ price, tiers, exchangeRates, onChange }: PriceInputProps) {
+  const selectTier = (name: string) => {
+    const tier = tiers.find(t => t.name === name);
+    if (tier) onChange({ ...price, amount: tier.amount, tier: tier.name });
+    else onChange({ type: price.type, amount: price.amount });
+  };
+
+  return (
+    <div>
+      <Label className={labelClass}>Price (V-Bucks)</Label>
+      <div className="flex gap-2">
+        <select value={price.tier ?? ''} onChange={(e) => selectTier(e.target.value)} className={`${selectClass} w-40`}>
+          <option value="">Custom</option>
+          {tiers.map(t => <option key={t.name} value={t.name}>{t.name} ({t.amount})</option>)}
+        </select>
+        <Input
+          type="number"
+          // Set min/max for UI constraints, validation handled on save
+          min="50"
+          max="5000"
+          step="50"
+          value={price.amount}
+          disabled={price.tier !== undefined}
+          onChange={(e) => onChange({ ...price, amount: parseInt(e.target.value) || 0 })}
+          className={inputClass}
+        />
+      </div>
+      <p className="text-xs text-emerald-600/80 mt-1">
+        {price.tier !== undefined
+          ? `Follows the ${price.tier} tier; change the tier to reprice every item on it.`
+          : 'Must be between 50 and 5000, and a multiple of 50.'}
+      </p>
+      {exchangeRates.length > 0 && (
+        <p className="text-xs text-emerald-700 mt-1">
+          ≈ {exchangeRates.map(rate => formatMoney(toRealMoney(price.amount, rate), rate.currency)).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import type { ProjectData } from '../lib/types';
+import {
+  addTier, setTierAmount, renameTier, removeTier, tierUsage, toRealMoney, formatMoney,
+  DEFAULT_EXCHANGE_RATES, type ExchangeRate
+} from '../lib/pricing';
+import { validatePrice } from '../lib/validation';
+import { uniqueName } from '../lib/naming';
+import { cardBorder, inputClass, labelClass, iconButtonClass, deleteButtonClass } from '../lib/styles';
+
+interface PricingPanelProps {
+  project: ProjectData;
+  setProject: (update: (prev: ProjectData) => ProjectData) => void;
+  exchangeRates: ExchangeRate[];
+  setExchangeRates: (rates: ExchangeRate[]) => void;
+}
+
+export function PricingPanel({ project, setProject, exchangeRates, setExchangeRates }: PricingPanelProps) {
+  // Tier names are edited as drafts and applied on blur so every keystroke
+  // doesn't rename references
+  const [nameDrafts, setNameDrafts] = useState<Record<number, string>>({});
+
+  const commitName = (idx: number) => {
+    const draft = nameDrafts[idx];
+    if (draft === undefined) return;
+    const name = draft.trim();
+    const current = project.priceTiers[idx].name;
+    if (name && !project.priceTiers.some((t, i) => i !== idx && t.name === name)) {
+      setProject(prev => renameTier(prev, current, name));
+    }
+    setNameDrafts(drafts => {
+      const next = { ...drafts };
+      delete next[idx];
+      return next;
+    });
+  };
+
+  const updateRate = (idx: number, patch: Partial<ExchangeRate>) =>
+    setExchangeRates(exchangeRates.map((rate, i) => i === idx ? { ...rate, ...patch } : rate));
+
+  return (
+    <div className="space-y-4">
+      <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+        <div className="flex items-center justify-between">
+          <Label className={`${labelClass} mb-0`}>Price Tiers</Label>
+          <Button
+            size="sm"
+            onClick={() => setProject(prev => addTier(prev, uniqueName('Tier', prev.priceTiers.map(t => t.name)), 250))}
+            className={iconButtonClass}
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add Tier
+          </Button>
+        </div>
+        {project.priceTiers.length === 0 && (
+          <p className="text-sm text-emerald-700">No tiers yet. Offers and bundles on a tier are repriced whenever the tier changes.</p>
+        )}
+        {project.priceTiers.map((tier, idx) => {
+          const usage = tierUsage(project, tier.name);
+          const priceErrors = validatePrice(tier.amount);
+          return (
+            <div key={idx} className="space-y-1">
+              <div className="flex gap-2 items-center">
+                <Input
+                  value={nameDrafts[idx] ?? tier.name}
+                  onChange={(e) => setNameDrafts({ ...nameDrafts, [idx]: e.target.value })}
+                  onBlur={() => commitName(idx)}
+                  onKeyDown={(e) => e.key === 'Enter' && commitName(idx)}
+                  className={inputClass}
+                />
+                <Input
+                  type="number"
+                  min="50"
+                  max="5000"
+                  step="50"
+                  value={tier.amount}
+                  onChange={(e) => setProject(prev => setTierAmount(prev, tier.name, parseInt(e.target.value) || 0))}
+                  className={`${inputClass} w-28`}
+                />
+                <span className="text-xs text-emerald-600 w-20 shrink-0">{usage} item{usage === 1 ? '' : 's'}</span>
+                <Button
+                  size="sm"
+                  onClick={() => setProject(prev => removeTier(prev, tier.name))}
+                  title="Remove tier; items keep their current price"
+                  className={deleteButtonClass}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {priceErrors.length > 0 ? (
+                <p className="text-xs text-red-400">{priceErrors.join(', ')}</p>
+              ) : (
+                <p className="text-xs text-emerald-700">
+                  ≈ {exchangeRates.map(rate => formatMoney(toRealMoney(tier.amount, rate), rate.currency)).join(' · ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+        <div className="flex items-center justify-between">
+          <Label className={`${labelClass} mb-0`}>Exchange Table</Label>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => setExchangeRates([...exchangeRates, { currency: 'USD', vbucks: 1000, price: 0 }])}
+              className={iconButtonClass}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+            <Button size="sm" onClick={() => setExchangeRates(DEFAULT_EXCHANGE_RATES)} title="Restore the default table" className={iconButtonClass}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-emerald-700">
+          What a V-Bucks pack costs in each currency. Stored in this browser only and used for rough estimates.
+        </p>
+        {exchangeRates.map((rate, idx) => (
+          <div key={idx} className="flex gap-2 items-center">
+            <Input
+              value={rate.currency}
+              onChange={(e) => updateRate(idx, { currency: e.target.value.toUpperCase() })}
+              placeholder="USD"
+              className={`${inputClass} font-mono w-24`}
+            />
+            <Input
+              type="number"
+              min="1"
+              value={rate.vbucks}
+              onChange={(e) => updateRate(idx, { vbucks: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+            <span className="text-xs text-emerald-600 shrink-0">V-Bucks =</span>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rate.price}
+              onChange={(e) => updateRate(idx, { price: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+            <Button size="sm" onClick={() => setExchangeRates(exchangeRates.filter((_, i) => i !== idx))} className={deleteButtonClass}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
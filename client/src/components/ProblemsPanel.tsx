@@ -0,0 +1,39 @@
+import { AlertTriangle, XCircle } from 'lucide-react';
+import type { Diagnostic } from '../lib/validation';
+import { cardBorder } from '../lib/styles';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect: (diagnostic: Diagnostic) => void;
+}
+
+export function ProblemsPanel({ diagnostics, onSelect }: ProblemsPanelProps) {
+  if (diagnostics.length === 0) return null;
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className={`bg-neutral-900 ${cardBorder} rounded-none`}>
+      <div className="px-3 py-2 border-b border-emerald-900/50 flex gap-4 text-xs uppercase tracking-wider font-bold">
+        <span className="text-emerald-600">Problems</span>
+        {errorCount > 0 && <span className="text-red-400">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+        {warningCount > 0 && <span className="text-amber-400">{warningCount} warning{warningCount === 1 ? '' : 's'}</span>}
+      </div>
+      <ul className="max-h-48 overflow-y-auto text-sm">
+        {diagnostics.map((d, idx) => (
+          <li
+            key={idx}
+            onClick={() => onSelect(d)}
+            className="px-3 py-1.5 flex items-start gap-2 cursor-pointer hover:bg-emerald-900/20 border-b border-emerald-950 last:border-b-0"
+          >
+            {d.severity === 'error'
+              ? <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-400" />
+              : <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />}
+            <span className="font-mono text-xs text-emerald-600 shrink-0 mt-0.5">{d.path}</span>
+            <span className="text-emerald-100/90">{d.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { FilePlus, CopyPlus, Pencil, Trash2, Check, X, Download, Upload, FileCode, FileSpreadsheet } from 'lucide-react';
+import type { SavedProject } from '../lib/storage';
+import { cardBorder, inputClass, selectClass, iconButtonClass, deleteButtonClass } from '../lib/styles';
+
+interface ProjectSwitcherProps {
+  projects: SavedProject[];
+  activeProjectId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onImportVerse: () => void;
+  onImportCatalog: () => void;
+  // Time of the last successful autosave, null until the first one
+  savedAt: number | null;
+  saveFailed: boolean;
+}
+
+export function ProjectSwitcher({ projects, activeProjectId, onSelect, onCreate, onRename, onDuplicate, onDelete, onExport, onImport, onImportVerse, onImportCatalog, savedAt, saveFailed }: ProjectSwitcherProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const active = projects.find(p => p.id === activeProjectId);
+
+  const commitRename = () => {
+    if (active && renaming !== null && renaming.trim()) {
+      onRename(active.id, renaming.trim());
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 p-3 mb-6 bg-neutral-900/50 ${cardBorder} rounded-none`}>
+      <span className="text-emerald-600 text-xs uppercase tracking-wider font-bold mr-1">Project</span>
+      {renaming === null ? (
+        <select
+          value={activeProjectId}
+          onChange={(e) => onSelect(e.target.value)}
+          className={`${selectClass} flex-1 min-w-48 w-auto`}
+        >
+          {projects.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      ) : (
+        <Input
+          autoFocus
+          value={renaming}
+          onChange={(e) => setRenaming(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setRenaming(null);
+          }}
+          className={`${inputClass} flex-1 min-w-48 w-auto`}
+        />
+      )}
+      <div className="flex gap-2">
+        {renaming === null ? (
+          <>
+            <Button size="sm" title="New project" onClick={onCreate} className={iconButtonClass}>
+              <FilePlus className="w-4 h-4" />
+            </Button>
+            <Button size="sm" title="Rename project" onClick={() => setRenaming(active?.name ?? '')} className={iconButtonClass}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button size="sm" title="Duplicate project" onClick={() => onDuplicate(activeProjectId)} className={iconButtonClass}>
+              <CopyPlus className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              title="Delete project"
+              variant="destructive"
+              onClick={() => {
+                if (active && window.confirm(`Delete project "${active.name}"? This cannot be undone.`)) {
+                  onDelete(active.id);
+                }
+              }}
+              className={deleteButtonClass}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+            <Button size="sm" title="Export project as JSON" onClick={onExport} className={iconButtonClass}>
+              <Download className="w-4 h-4" />
+            </Button>
+            <Button size="sm" title="Import project from JSON" onClick={() => fileInput.current?.click()} className={iconButtonClass}>
+              <Upload className="w-4 h-4" />
+            </Button>
+            <Button size="sm" title="Import existing Verse source" onClick={onImportVerse} className={iconButtonClass}>
+              <FileCode className="w-4 h-4" />
+            </Button>
+            <Button size="sm" title="Import items from a CSV/TSV catalog" onClick={onImportCatalog} className={iconButtonClass}>
+              <FileSpreadsheet className="w-4 h-4" />
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </>
+        ) : (
+          <>
+            <Button size="sm" title="Save name" onClick={commitRename} className={iconButtonClass}>
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button size="sm" title="Cancel" onClick={() => setRenaming(null)} className={iconButtonClass}>
+              <X className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+      {saveFailed ? (
+        <span className="text-red-400 text-xs font-bold ml-auto">
+          Not saved: browser storage is full. Export your project to keep your changes.
+        </span>
+      ) : savedAt !== null && (
+        <span className="text-emerald-800 text-xs font-mono ml-auto">
+          Autosaved {new Date(savedAt).toLocaleTimeString()}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { X } from 'lucide-react';
+import { normalizeTag } from '../lib/listQuery';
+import { inputClass, labelClass } from '../lib/styles';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags used elsewhere in the project, offered as suggestions
+  suggestions: string[];
+}
+
+// Tag chips plus an input that adds a tag on Enter or comma
+export function TagInput({ tags, onChange, suggestions }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const add = (text: string) => {
+    const added = text.split(',').map(normalizeTag).filter(tag => tag && !tags.includes(tag));
+    if (added.length > 0) onChange([...tags, ...new Set(added)]);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <Label className={labelClass}>Tags</Label>
+      <div className="flex flex-wrap items-center gap-1">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 text-xs bg-emerald-900/40 border border-emerald-800 text-emerald-300">
+            {tag}
+            <button type="button" title={`Remove ${tag}`} onClick={() => onChange(tags.filter(t => t !== tag))}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              add(draft);
+            } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+              onChange(tags.slice(0, -1));
+            }
+          }}
+          onBlur={() => add(draft)}
+          list="project-tags"
+          placeholder="Add tag…"
+          className={`${inputClass} w-40 h-7 text-xs`}
+        />
+        <datalist id="project-tags">
+          {suggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+}
+
+// Read-only tag chips for list rows
+export function ItemTags({ tags }: { tags?: string[] }) {
+  if (!tags || tags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {tags.map(tag => (
+        <span key={tag} className="px-1.5 text-xs border border-emerald-900 text-emerald-600">{tag}</span>
+      ))}
+    </div>
+  );
+}
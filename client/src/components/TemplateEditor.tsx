@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { RotateCcw, XCircle } from 'lucide-react';
+import type { ProjectData, TemplateKey } from '../lib/types';
+import { TEMPLATE_DEFS, TEMPLATE_KEYS, compileFor, renderTemplate } from '../lib/templates';
+import { cardBorder, inputClass, labelClass, selectClass, iconButtonClass } from '../lib/styles';
+
+interface TemplateEditorProps {
+  project: ProjectData;
+  setProject: (update: (prev: ProjectData) => ProjectData) => void;
+}
+
+export function TemplateEditor({ project, setProject }: TemplateEditorProps) {
+  const [key, setKey] = useState<TemplateKey>('offerClass');
+  const def = TEMPLATE_DEFS[key];
+  const source = project.templates[key] ?? def.template;
+  const compiled = compileFor(key, source);
+
+  // Text identical to the built-in isn't stored, so later default changes still apply
+  const setSource = (text: string) => setProject(prev => {
+    const templates = { ...prev.templates };
+    if (text === TEMPLATE_DEFS[key].template) delete templates[key];
+    else templates[key] = text;
+    return { ...prev, templates };
+  });
+
+  return (
+    <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+      <div className="flex items-center gap-2">
+        <Label className={`${labelClass} mb-0 shrink-0`}>Template</Label>
+        <select value={key} onChange={(e) => setKey(e.target.value as TemplateKey)} className={selectClass}>
+          {TEMPLATE_KEYS.map(k => (
+            <option key={k} value={k}>{TEMPLATE_DEFS[k].label}{project.templates[k] !== undefined ? ' (custom)' : ''}</option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          onClick={() => setSource(def.template)}
+          disabled={project.templates[key] === undefined}
+          title="Restore the built-in template"
+          className={`${iconButtonClass} h-9`}
+        >
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Textarea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        spellCheck={false}
+        className={`${inputClass} font-mono text-xs min-h-[200px] whitespace-pre`}
+      />
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {Object.entries(def.variables).map(([name, description]) => (
+          <span key={name} title={description} className="font-mono text-emerald-500">{`{{${name}}}`}</span>
+        ))}
+        <span className="font-mono text-emerald-700">{'{{#if name}} … {{else}} … {{/if}}'}</span>
+      </div>
+
+      <div>
+        <Label className={labelClass}>Preview (sample data)</Label>
+        {compiled.errors.length > 0 ? (
+          <ul className="bg-red-900/20 border border-red-900/50 p-2 space-y-1 text-sm">
+            {compiled.errors.map((err, idx) => (
+              <li key={idx} className="flex items-start gap-2 text-red-300">
+                <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span><span className="font-mono text-red-400">line {err.line}</span> {err.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <pre className={`bg-black/80 text-emerald-400 p-3 rounded-none overflow-x-auto text-xs font-mono ${cardBorder}`}>
+            {renderTemplate(compiled, def.sample)}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
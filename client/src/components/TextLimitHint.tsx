@@ -0,0 +1,17 @@
+import { TEXT_LIMITS, validateStoreText, type StoreTextField } from '../lib/validation';
+
+interface TextLimitHintProps {
+  field: StoreTextField;
+  text: string;
+}
+
+// Character counter under store text inputs, turning amber past the UEFN limit
+export function TextLimitHint({ field, text }: TextLimitHintProps) {
+  const warnings = validateStoreText(field, text);
+  return (
+    <div className={`flex justify-between gap-2 text-xs mt-1 ${warnings.length > 0 ? 'text-amber-400' : 'text-emerald-700'}`}>
+      <span>{warnings.join('. ')}</span>
+      <span className="font-mono shrink-0">{text.length}/{TEXT_LIMITS[field]}</span>
+    </div>
+  );
+}
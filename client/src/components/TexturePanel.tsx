@@ -0,0 +1,211 @@
+import { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Plus, Trash2, Upload, ImagePlus, ImageOff, Image } from 'lucide-react';
+import type { ProjectData } from '../lib/types';
+import {
+  parseTextureList, addTextures, removeTexture, setTexturePreview, textureUsage, searchTextures, type TexturePreviews
+} from '../lib/textures';
+import { cardBorder, inputClass, labelClass, iconButtonClass, deleteButtonClass } from '../lib/styles';
+
+interface TexturePanelProps {
+  project: ProjectData;
+  setProject: (update: (prev: ProjectData) => ProjectData) => void;
+  previews: TexturePreviews;
+  // Returns false when the previews couldn't be stored
+  onPreviewsChange: (previews: TexturePreviews) => boolean;
+}
+
+// Previews are kept in browser storage, so keep them thumbnail sized
+const THUMBNAIL_SIZE = 64;
+
+const makeThumbnail = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new window.Image();
+  img.onload = () => {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`${file.name} is not an image`));
+  };
+  img.src = url;
+});
+
+// "T_Speed.png" belongs to "Textures.T_Speed"
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase();
+
+export function TexturePanel({ project, setProject, previews, onPreviewsChange }: TexturePanelProps) {
+  const [source, setSource] = useState('');
+  const [search, setSearch] = useState('');
+  const [note, setNote] = useState<string | null>(null);
+  // Texture a picked image is for; null matches images to textures by file name
+  const [previewTarget, setPreviewTarget] = useState<string | null>(null);
+  const listInput = useRef<HTMLInputElement>(null);
+  const imageInput = useRef<HTMLInputElement>(null);
+
+  const importList = (text: string) => {
+    const paths = parseTextureList(text);
+    const { added } = addTextures(project, paths);
+    setProject(prev => addTextures(prev, paths).data);
+    setNote(paths.length === 0 ? 'No texture paths found' : `Added ${added} of ${paths.length} textures`);
+    setSource('');
+  };
+
+  const attachPreviews = async (files: File[]) => {
+    const targets = previewTarget !== null
+      ? [{ path: previewTarget, file: files[0] }]
+      : files.flatMap(file => {
+        const texture = project.textures.find(t => baseName(t.path.split('.').pop() ?? '') === baseName(file.name));
+        return texture ? [{ path: texture.path, file }] : [];
+      });
+    const made: Array<{ path: string; preview: string }> = [];
+    for (const { path, file } of targets) {
+      try {
+        made.push({ path, preview: await makeThumbnail(file) });
+      } catch (err) {
+        setNote((err as Error).message);
+      }
+    }
+    const saved = updatePreviews(made.reduce((next, { path, preview }) => setTexturePreview(next, path, preview), previews));
+    if (saved && previewTarget === null) setNote(`Matched ${made.length} of ${files.length} images by file name`);
+  };
+
+  const updatePreviews = (next: TexturePreviews): boolean => {
+    const saved = onPreviewsChange(next);
+    if (!saved) setNote('Browser storage is full; previews will be lost on reload');
+    return saved;
+  };
+
+  const visible = searchTextures(project.textures, search);
+
+  return (
+    <div className="space-y-4">
+      <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-3`}>
+        <Label className={`${labelClass} mb-0`}>Import Textures</Label>
+        <p className="text-xs text-emerald-700">
+          Paste your Assets.digest.verse or a list of texture paths. Once the registry has textures, every icon must be one of them.
+        </p>
+        <Textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder={'Textures<public> := module:\n    T_SpeedBoost<public>:texture = external {}'}
+          className={`${inputClass} font-mono text-xs min-h-[100px]`}
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => importList(source)} disabled={!source.trim()} className={iconButtonClass}>
+            <Plus className="w-4 h-4 mr-1" /> Add Textures
+          </Button>
+          <Button size="sm" onClick={() => listInput.current?.click()} className={iconButtonClass}>
+            <Upload className="w-4 h-4 mr-1" /> Upload Digest
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              setPreviewTarget(null);
+              imageInput.current?.click();
+            }}
+            disabled={project.textures.length === 0}
+            title="Pick images named after their textures, e.g. T_SpeedBoost.png"
+            className={iconButtonClass}
+          >
+            <ImagePlus className="w-4 h-4 mr-1" /> Attach Previews
+          </Button>
+          {note && <span className="text-sm text-emerald-500 self-center">{note}</span>}
+        </div>
+        <input
+          ref={listInput}
+          type="file"
+          accept=".verse,.txt,text/plain"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (file) importList(await file.text());
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={imageInput}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = [...(e.target.files ?? [])];
+            if (files.length > 0) attachPreviews(files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className={`p-3 bg-neutral-900 ${cardBorder} rounded-none space-y-2`}>
+        <div className="flex items-center justify-between gap-2">
+          <Label className={`${labelClass} mb-0`}>Registry ({project.textures.length})</Label>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search…"
+            className={`${inputClass} w-48`}
+          />
+        </div>
+        {project.textures.length === 0 && (
+          <p className="text-sm text-emerald-700">No textures yet. Icons are not checked until you add some.</p>
+        )}
+        <div className="max-h-96 overflow-y-auto space-y-1">
+          {visible.map(texture => {
+            const usage = textureUsage(project, texture.path);
+            return (
+              <div key={texture.path} className="flex items-center gap-2 p-1 border-b border-emerald-950 last:border-b-0">
+                <div className="w-10 h-10 shrink-0 bg-neutral-950 border border-emerald-900 flex items-center justify-center">
+                  {previews[texture.path]
+                    ? <img src={previews[texture.path]} alt="" className="max-w-full max-h-full" />
+                    : <Image className="w-4 h-4 text-emerald-800" />}
+                </div>
+                <span className="font-mono text-sm text-emerald-400 flex-1 truncate">{texture.path}</span>
+                <span className="text-xs text-emerald-600 w-16 shrink-0">{usage} item{usage === 1 ? '' : 's'}</span>
+                {previews[texture.path] ? (
+                  <Button
+                    size="sm"
+                    title="Remove preview"
+                    onClick={() => updatePreviews(setTexturePreview(previews, texture.path, undefined))}
+                    className={iconButtonClass}
+                  >
+                    <ImageOff className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    title="Attach preview image"
+                    onClick={() => {
+                      setPreviewTarget(texture.path);
+                      imageInput.current?.click();
+                    }}
+                    className={iconButtonClass}
+                  >
+                    <ImagePlus className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  title={usage > 0 ? 'Remove texture; icons using it will be reported' : 'Remove texture'}
+                  onClick={() => setProject(prev => removeTexture(prev, texture.path))}
+                  className={deleteButtonClass}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
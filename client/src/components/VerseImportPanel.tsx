@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { FileCode } from 'lucide-react';
+import { cardBorder, inputClass, labelClass } from '../lib/styles';
+
+interface VerseImportPanelProps {
+  onParse: (source: string, name: string) => void;
+  onCancel: () => void;
+}
+
+// Paste or upload existing .verse transaction modules to rebuild a project from them
+export function VerseImportPanel({ onParse, onCancel }: VerseImportPanelProps) {
+  const [source, setSource] = useState('');
+  const [name, setName] = useState('Imported Verse');
+
+  return (
+    <div className={`space-y-4 p-4 mb-6 bg-neutral-900 ${cardBorder} rounded-none`}>
+      <h3 className="text-emerald-400 font-bold uppercase tracking-wide border-b border-emerald-900 pb-2">
+        Import Verse Source
+      </h3>
+      <div>
+        <Label className={labelClass}>Project Name</Label>
+        <Input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <Label className={labelClass}>Verse Source</Label>
+        <Textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="Paste your EntitlementInfo, Entitlements, offer and bundle modules here"
+          className={`${inputClass} font-mono text-xs min-h-[200px]`}
+        />
+        <Input
+          type="file"
+          accept=".verse,text/plain"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            setSource(await file.text());
+            setName(file.name.replace(/\.verse$/i, ''));
+          }}
+          className={`${inputClass} mt-2`}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button
+          onClick={() => onParse(source, name.trim() || 'Imported Verse')}
+          disabled={!source.trim()}
+          className={`flex-1 bg-emerald-700 hover:bg-emerald-600 text-white ${cardBorder} font-bold rounded-none`}
+        >
+          <FileCode className="w-4 h-4 mr-2" /> Parse Into New Project
+        </Button>
+        <Button onClick={onCancel} variant="outline" className="flex-1 border-emerald-800 text-emerald-600 hover:bg-emerald-900/20 hover:text-emerald-400 rounded-none">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import type { ProjectData } from './types';
+import { modulePath } from './verseCodegen';
+import { renderTemplate, templateFor } from './templates';
+import { flattenGrants } from './bundleContents';
+import { toPascalCase, uniqueName } from './naming';
+
+// ============================================================================
+// API USAGE GENERATORS
+// ============================================================================
+
+// UPDATED: Matches user requested pattern for BuyOffer
+export const generateBuyOfferCode = (data: ProjectData, selectedItems: Set<string>): string => {
+  const offersPath = modulePath(data.codegen, 'offersModule');
+  const bundlesPath = modulePath(data.codegen, 'bundlesModule');
+  let code = '// BuyOffer API Usage Examples - VERSE TRANSACTIONS\n';
+  code += '// Suspends execution until purchase response\n\n';
+  
+  // Filter offers based on selection
+  const activeOffers = data.offers.filter(o => selectedItems.has(o.className));
+  const activeBundles = data.bundles.filter(b => selectedItems.has(b.className));
+
+  const template = templateFor(data, 'buySnippet');
+
+  if (activeOffers.length > 0) {
+    code += '# Individual Offers\n\n';
+    activeOffers.forEach(offer => {
+      code += renderTemplate(template, {
+        className: offer.className,
+        path: `${offersPath}.${offer.className}`,
+        price: String(offer.price.amount),
+        bundle: '',
+        itemCount: '0'
+      });
+    });
+  }
+  
+  if (activeBundles.length > 0) {
+    code += '# Bundle Offers\n\n';
+    activeBundles.forEach(bundle => {
+      code += renderTemplate(template, {
+        className: bundle.className,
+        path: `${bundlesPath}.${bundle.className}`,
+        price: String(bundle.price.amount),
+        bundle: 'true',
+        // Everything the bundle grants, nested bundles included
+        itemCount: String([...flattenGrants(data, bundle).values()].reduce((sum, quantity) => sum + quantity, 0))
+      });
+    });
+  }
+
+  if (activeOffers.length === 0 && activeBundles.length === 0) {
+    code += '# No items selected. Select offers or bundles above to generate code.';
+  }
+
+  return code;
+};
+
+// UPDATED: Matches user requested pattern for ConsumeEntitlement
+export const generateConsumeCode = (data: ProjectData, selectedItems: Set<string>, quantity: number): string => {
+  const entitlementsPath = modulePath(data.codegen, 'entitlementsModule');
+  let code = '// ConsumeEntitlement API Usage Examples - VERSE TRANSACTIONS\n';
+  code += '// Only works with consumable entitlements (Consumable = true). only works in a <suspends> function.\n';
+  
+  const consumableEnts = data.entitlements.filter(e => e.consumable && selectedItems.has(e.className));
+  
+  if (consumableEnts.length > 0) {
+    const template = templateFor(data, 'consumeSnippet');
+    consumableEnts.forEach(ent => {
+      code += renderTemplate(template, {
+        className: ent.className,
+        path: `${entitlementsPath}.${ent.className}`,
+        maxCount: String(ent.maxCount),
+        quantity: String(quantity)
+      });
+    });
+  } else {
+    code += '# No consumable entitlements selected or available.';
+  }
+  return code;
+};
+
+// Ownership queries plus gating helpers driven by each entitlement's
+// MaxCount and Consumable settings
+export const generateOwnershipCode = (data: ProjectData, selectedItems: Set<string>): string => {
+  const entitlementsPath = modulePath(data.codegen, 'entitlementsModule');
+  let code = '// Entitlement Ownership API Usage Examples - VERSE TRANSACTIONS\n';
+  code += '// Count queries suspend, so call these helpers from a <suspends> function.\n\n';
+
+  const selectedEnts = data.entitlements.filter(e => selectedItems.has(e.className));
+  if (selectedEnts.length === 0) {
+    return code + '# No entitlements selected. Select entitlements above to generate code.';
+  }
+
+  // Helpers use the PascalCase form of the class name (GetSpeedBoostCount);
+  // classes that collapse to the same form still get distinct helpers
+  const taken: string[] = [];
+  selectedEnts.forEach(ent => {
+    const name = ent.className;
+    const id = uniqueName(toPascalCase(name) || 'Entitlement', taken);
+    taken.push(id);
+    const offers = data.offers.filter(o => o.entitlementType === name);
+    code += `# ${name} (MaxCount: ${ent.maxCount}, ${ent.consumable ? 'consumable' : 'permanent'})\n`;
+    code += `    Get${id}Count(Player:player)<suspends>:int =\n`;
+    code += `        GetEntitlementCount(Player, ${entitlementsPath}.${name})\n\n`;
+
+    code += `    Owns${id}(Player:player)<suspends>:logic =\n`;
+    code += `        Count := Get${id}Count(Player)\n`;
+    code += '        logic{Count > 0}\n\n';
+
+    // Grant if owned
+    code += `    Grant${id}IfOwned(Player:player)<suspends>:void =\n`;
+    code += `        Count := Get${id}Count(Player)\n`;
+    code += '        if (Count > 0):\n';
+    code += ent.consumable
+      ? `            # Apply ${name} here; consume it afterwards if each use should cost one\n`
+      : `            # Grant the ${name} ability or item here\n`;
+    code += `            Print("${name} owned: {Count}")\n\n`;
+
+    // Hide offer once the player can't hold any more
+    code += `    ${id}AtMaxCount(Player:player)<suspends>:logic =\n`;
+    code += `        Count := Get${id}Count(Player)\n`;
+    code += `        logic{Count >= ${ent.maxCount}}\n\n`;
+    if (offers.length > 0) {
+      code += `    # Hide ${offers.map(o => o.className).join(', ')} once ${name} is at MaxCount\n`;
+      code += `    Update${id}OfferVisibility(Player:player, OfferButton:button_device)<suspends>:void =\n`;
+      code += `        AtMax := ${id}AtMaxCount(Player)\n`;
+      code += '        if (AtMax?):\n';
+      code += '            OfferButton.Disable(Player)\n';
+      code += '        else:\n';
+      code += '            OfferButton.Enable(Player)\n\n';
+    }
+  });
+
+  return code;
+};
+
+// Full creative_device that wires a button or trigger to each selected offer
+// and routes completed purchases to a stub handler per offer.
+export type DeviceBinding = 'button' | 'trigger';
+
+// Bindings are keyed by kind too, since an offer and a bundle can share a class name
+export const bindingKey = (kind: 'offer' | 'bundle', name: string): string => `${kind}:${name}`;
+
+export const generateDeviceCode = (data: ProjectData, selectedItems: Set<string>, bindings: Record<string, DeviceBinding>): string => {
+  const offersPath = modulePath(data.codegen, 'offersModule');
+  const bundlesPath = modulePath(data.codegen, 'bundlesModule');
+  // An offer and a bundle can share a class name, so each item gets its own
+  // identifier for the methods and fields generated from it
+  const taken: string[] = [];
+  const items = [
+    ...data.offers.filter(o => selectedItems.has(o.className)).map(o => ({ name: o.className, kind: 'offer' as const, suffix: 'Offer', path: `${offersPath}.${o.className}` })),
+    ...data.bundles.filter(b => selectedItems.has(b.className)).map(b => ({ name: b.className, kind: 'bundle' as const, suffix: 'Bundle', path: `${bundlesPath}.${b.className}` }))
+  ].map(({ suffix, kind, ...item }) => {
+    const id = uniqueName(taken.includes(item.name) ? `${item.name}${suffix}` : item.name, taken);
+    taken.push(id);
+    const binding = bindings[bindingKey(kind, item.name)] ?? 'button';
+    return { ...item, id, binding, field: `${id}${binding === 'button' ? 'Button' : 'Trigger'}` };
+  });
+
+  // A complete .verse file, so the header uses Verse comments
+  let code = '# Purchase Handling Device - VERSE TRANSACTIONS\n';
+  code += '# Add this file next to your generated offers, place the device and assign its bindings\n\n';
+  code += 'using { /Fortnite.com/Devices }\n';
+  code += 'using { /Verse.org/Simulation }\n';
+  code += 'using { /UnrealEngine.com/Temporary/Diagnostics }\n\n';
+  code += 'purchase_handler_device<public> := class(creative_device):\n\n';
+
+  if (items.length === 0) {
+    code += '    # No offers selected. Select offers or bundles above to generate bindings.\n\n';
+  }
+  items.forEach(item => {
+    code += '    @editable\n';
+    code += `    ${item.field}:${item.binding}_device = ${item.binding}_device{}\n\n`;
+  });
+
+  code += '    OnBegin<override>()<suspends>:void =\n';
+  items.forEach(item => {
+    const event = item.binding === 'button' ? 'InteractedWithEvent' : 'TriggeredEvent';
+    code += `        ${item.field}.${event}.Subscribe(On${item.field}Activated)\n`;
+  });
+  code += '        for (Player : GetPlayspace().GetPlayers()):\n';
+  code += '            OnPlayerAdded(Player)\n';
+  code += '        GetPlayspace().PlayerAddedEvent().Subscribe(OnPlayerAdded)\n\n';
+
+  code += '    # Purchases can also complete from the island shop, so listen per player\n';
+  code += '    OnPlayerAdded(Player:player):void =\n';
+  code += '        GetOfferPurchasedEvent(Player).Subscribe(OnOfferPurchased)\n';
+  code += '        GetEntitlementsChangedEvent(Player).Subscribe(OnEntitlementsChanged)\n\n';
+
+  items.forEach(item => {
+    if (item.binding === 'button') {
+      code += `    On${item.field}Activated(Agent:agent):void =\n`;
+      code += '        if (Player := player[Agent]):\n';
+    } else {
+      code += `    On${item.field}Activated(MaybeAgent:?agent):void =\n`;
+      code += '        if (Agent := MaybeAgent?, Player := player[Agent]):\n';
+    }
+    code += `            spawn{ Buy${item.id}(Player) }\n\n`;
+    code += `    Buy${item.id}(Player:player)<suspends>:void =\n`;
+    code += `        Result := BuyOffer(Player, ${item.path})\n`;
+    code += '        if (not Result?):\n';
+    code += `            Print("Purchase of ${item.name} did not complete")\n\n`;
+  });
+
+  code += '    OnOfferPurchased(Purchase:tuple(player, offer)):void =\n';
+  code += '        Player := Purchase(0)\n';
+  code += '        Offer := Purchase(1)\n';
+  items.forEach((item, idx) => {
+    code += `        ${idx === 0 ? 'if' : 'else if'} (${item.path}[Offer]):\n`;
+    code += `            On${item.id}Purchased(Player)\n`;
+  });
+  code += `        ${items.length > 0 ? 'else:\n            ' : ''}Print("Unhandled offer purchased")\n\n`;
+
+  code += '    OnEntitlementsChanged(Player:player):void =\n';
+  code += '        # Re-check what the player owns here, e.g. to unlock paid areas\n';
+  code += '        Print("Entitlements changed")\n\n';
+
+  items.forEach(item => {
+    code += `    On${item.id}Purchased(Player:player):void =\n`;
+    code += `        # Grant rewards for ${item.name} here\n`;
+    code += `        Print("${item.name} purchased")\n\n`;
+  });
+
+  return code;
+};
@@ -0,0 +1,69 @@
+import type { BundleEntry, BundleEntryKind, BundleOffer, ProjectData } from './types';
+
+// ============================================================================
+// BUNDLE CONTENTS
+// ============================================================================
+// Bundles hold offers, other bundles, or entitlements directly.
+
+export const BUNDLE_ENTRY_KINDS: readonly BundleEntryKind[] = ['offer', 'bundle', 'entitlement'];
+
+export const entryKind = (entry: BundleEntry): BundleEntryKind => entry.kind ?? 'offer';
+
+// Path of bundle names that leads back to the starting bundle, e.g.
+// ["a", "b", "a"], or null when it doesn't contain itself
+export const findBundleCycle = (data: ProjectData, start: string): string[] | null => {
+  const bundles = new Map(data.bundles.map(b => [b.className, b]));
+  const visit = (name: string, path: string[]): string[] | null => {
+    const bundle = bundles.get(name);
+    if (!bundle) return null;
+    for (const entry of bundle.offers) {
+      if (entryKind(entry) !== 'bundle') continue;
+      if (entry.offerRef === start) return [...path, start];
+      // Cycles not involving the start bundle are reported for their own members
+      if (path.includes(entry.offerRef)) continue;
+      const found = visit(entry.offerRef, [...path, entry.offerRef]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return visit(start, [start]);
+};
+
+const bundleContains = (data: ProjectData, outer: string, inner: string, seen = new Set<string>()): boolean => {
+  if (seen.has(outer)) return false;
+  seen.add(outer);
+  const bundle = data.bundles.find(b => b.className === outer);
+  return !!bundle?.offers.some(entry => entryKind(entry) === 'bundle'
+    && (entry.offerRef === inner || bundleContains(data, entry.offerRef, inner, seen)));
+};
+
+// Whether putting `candidate` inside `bundle` would make it contain itself
+export const wouldCreateCycle = (data: ProjectData, bundle: string, candidate: string): boolean =>
+  candidate === bundle || bundleContains(data, candidate, bundle);
+
+// Entitlements the bundle grants once nested bundles are expanded, with
+// quantities multiplied through each level. Cyclic branches are cut off.
+export const flattenGrants = (data: ProjectData, bundle: BundleOffer): Map<string, number> => {
+  const offers = new Map(data.offers.map(o => [o.className, o.entitlementType]));
+  const bundles = new Map(data.bundles.map(b => [b.className, b]));
+  const totals = new Map<string, number>();
+  const add = (entitlement: string, quantity: number) => totals.set(entitlement, (totals.get(entitlement) ?? 0) + quantity);
+
+  const walk = (current: BundleOffer, multiplier: number, path: Set<string>) => {
+    current.offers.forEach(entry => {
+      const quantity = entry.quantity * multiplier;
+      const kind = entryKind(entry);
+      if (kind === 'entitlement') {
+        add(entry.offerRef, quantity);
+      } else if (kind === 'offer') {
+        const entitlement = offers.get(entry.offerRef);
+        if (entitlement) add(entitlement, quantity);
+      } else {
+        const nested = bundles.get(entry.offerRef);
+        if (nested && !path.has(nested.className)) walk(nested, quantity, new Set([...path, nested.className]));
+      }
+    });
+  };
+  walk(bundle, 1, new Set([bundle.className]));
+  return totals;
+};
@@ -0,0 +1,77 @@
+import type { BundleOffer, ProjectData } from './types';
+import { entryKind, flattenGrants } from './bundleContents';
+
+// ============================================================================
+// BUNDLE VALUE
+// ============================================================================
+
+export interface BundleValue {
+  // Sum of price x quantity for the offers and nested bundles that resolve
+  value: number;
+  // 0.2 means 20% cheaper than buying separately; negative means dearer
+  discount: number | null;
+  // Bundle price per unit across all entries
+  unitCost: number | null;
+  units: number;
+  // Some entries have no standalone price (direct entitlements, missing
+  // references), so value is partial
+  incomplete: boolean;
+}
+
+export interface EntitlementGrant {
+  entitlement: string;
+  quantity: number;
+}
+
+export const analyzeBundle = (data: ProjectData, bundle: BundleOffer): BundleValue => {
+  const prices = {
+    offer: new Map(data.offers.map(o => [o.className, o.price.amount])),
+    bundle: new Map(data.bundles.map(b => [b.className, b.price.amount])),
+    entitlement: new Map<string, number>()
+  };
+  let value = 0;
+  let units = 0;
+  let incomplete = false;
+  bundle.offers.forEach(entry => {
+    const price = prices[entryKind(entry)].get(entry.offerRef);
+    if (price === undefined) incomplete = true;
+    else value += price * entry.quantity;
+    units += entry.quantity;
+  });
+  return {
+    value,
+    discount: value > 0 ? 1 - bundle.price.amount / value : null,
+    unitCost: units > 0 ? bundle.price.amount / units : null,
+    units,
+    incomplete
+  };
+};
+
+// Total quantity of each entitlement the bundle hands out, nested bundles
+// included, so two entries granting the same thing are checked together
+export const bundleGrants = (data: ProjectData, bundle: BundleOffer): EntitlementGrant[] =>
+  [...flattenGrants(data, bundle)].map(([entitlement, quantity]) => ({ entitlement, quantity }));
+
+// Problems with what the bundle grants or charges; empty when it's fine
+export const bundleValueWarnings = (data: ProjectData, bundle: BundleOffer): string[] => {
+  const warnings: string[] = [];
+  const { value, incomplete } = analyzeBundle(data, bundle);
+  if (!incomplete && value > 0 && bundle.price.amount > value) {
+    warnings.push(`Costs more than buying its offers separately (${bundle.price.amount} vs ${value} V-Bucks)`);
+  }
+
+  const entitlements = new Map(data.entitlements.map(e => [e.className, e]));
+  bundleGrants(data, bundle).forEach(({ entitlement, quantity }) => {
+    const ent = entitlements.get(entitlement);
+    if (!ent) return;
+    if (!ent.consumable && quantity > 1) {
+      warnings.push(`Grants ${quantity}× non-consumable "${entitlement}"; players can only use one`);
+    } else if (quantity > ent.maxCount) {
+      warnings.push(`Grants ${quantity}× "${entitlement}", above its MaxCount of ${ent.maxCount}`);
+    }
+  });
+  return warnings;
+};
+
+export const formatDiscount = (discount: number): string =>
+  discount >= 0 ? `${Math.round(discount * 100)}% off` : `${Math.round(-discount * 100)}% more`;
@@ -0,0 +1,135 @@
+import type { BundleEntry, ProjectData } from './types';
+import { toCsv } from './csv';
+import { analyzeBundle, formatDiscount } from './bundleValue';
+import { entryKind } from './bundleContents';
+
+// ============================================================================
+// CATALOG EXPORT
+// ============================================================================
+// A read-only view of the catalog for producers and store reviewers, in the
+// default locale.
+
+interface CatalogTable {
+  title: string;
+  columns: string[];
+  rows: string[][];
+}
+
+const describeEntry = (entry: BundleEntry): string => {
+  const kind = entryKind(entry);
+  return `${entry.quantity}× ${entry.offerRef}${kind === 'offer' ? '' : ` (${kind})`}`;
+};
+
+const catalogTables = (data: ProjectData): CatalogTable[] => {
+  const infos = new Map(data.entitlementInfos.map(i => [i.moduleName, i]));
+  const text = (moduleName: string) => {
+    const info = infos.get(moduleName);
+    return {
+      name: info?.name.text ?? '',
+      description: info?.description.text ?? '',
+      shortDescription: info?.shortDescription.text ?? ''
+    };
+  };
+
+  return [
+    {
+      title: 'Entitlements',
+      columns: ['Class Name', 'Name', 'Description', 'Short Description', 'Icon', 'Max Count', 'Consumable'],
+      rows: data.entitlements.map(ent => {
+        const { name, description, shortDescription } = text(ent.infoModule);
+        return [ent.className, name, description, shortDescription, ent.icon, String(ent.maxCount), ent.consumable ? 'yes' : 'no'];
+      })
+    },
+    {
+      title: 'Offers',
+      columns: ['Class Name', 'Name', 'Description', 'Icon', 'Entitlement', 'Price', 'Tier'],
+      rows: data.offers.map(offer => {
+        const { name, description } = text(offer.infoModule);
+        return [offer.className, name, description, offer.icon, offer.entitlementType, String(offer.price.amount), offer.price.tier ?? ''];
+      })
+    },
+    {
+      title: 'Bundles',
+      columns: ['Class Name', 'Name', 'Description', 'Icon', 'Contents', 'Price', 'Tier', 'Value', 'Discount'],
+      rows: data.bundles.map(bundle => {
+        const { name, description } = text(bundle.infoModule);
+        const { value, discount, incomplete } = analyzeBundle(data, bundle);
+        return [
+          bundle.className, name, description, bundle.icon, bundle.offers.map(describeEntry).join(', '),
+          String(bundle.price.amount), bundle.price.tier ?? '',
+          `${value}${incomplete ? '+' : ''}`, discount === null ? '' : formatDiscount(discount)
+        ];
+      })
+    }
+  ];
+};
+
+// --- CSV ---
+
+// One sheet with a Type column; columns a row's type doesn't use stay empty
+export const exportCatalogCsv = (data: ProjectData): string => {
+  const columns = ['Class Name', 'Name', 'Description', 'Short Description', 'Icon', 'Max Count', 'Consumable', 'Entitlement', 'Contents', 'Price', 'Tier', 'Value', 'Discount'];
+  const rows = catalogTables(data).flatMap(table => table.rows.map(row => {
+    const cells = new Map(table.columns.map((column, i) => [column, row[i]]));
+    return [table.title.replace(/s$/, ''), ...columns.map(column => cells.get(column) ?? '')];
+  }));
+  return toCsv([['Type', ...columns], ...rows]);
+};
+
+// --- MARKDOWN ---
+
+const escapeMarkdown = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+export const exportCatalogMarkdown = (data: ProjectData, projectName: string): string => {
+  const sections = catalogTables(data).map(table => [
+    `## ${table.title} (${table.rows.length})`,
+    '',
+    ...(table.rows.length === 0 ? ['_None_'] : [
+      `| ${table.columns.join(' | ')} |`,
+      `| ${table.columns.map(() => '---').join(' | ')} |`,
+      ...table.rows.map(row => `| ${row.map(escapeMarkdown).join(' | ')} |`)
+    ]),
+    ''
+  ].join('\n'));
+  return [`# ${projectName} Catalog`, '', 'Prices are in V-Bucks.', '', ...sections].join('\n');
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const exportCatalogHtml = (data: ProjectData, projectName: string): string => {
+  const sections = catalogTables(data).map(table => [
+    `<h2>${escapeHtml(table.title)} (${table.rows.length})</h2>`,
+    table.rows.length === 0 ? '<p><em>None</em></p>' : [
+      '<table>',
+      `  <thead><tr>${table.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>`,
+      '  <tbody>',
+      ...table.rows.map(row => `    <tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+      '  </tbody>',
+      '</table>'
+    ].join('\n')
+  ].join('\n'));
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(projectName)} Catalog</title>`,
+    '<style>',
+    'body { font-family: sans-serif; margin: 2rem; }',
+    'table { border-collapse: collapse; margin-bottom: 2rem; }',
+    'th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }',
+    'th { background: #eee; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(projectName)} Catalog</h1>`,
+    '<p>Prices are in V-Bucks.</p>',
+    ...sections,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+};
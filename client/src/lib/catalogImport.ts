@@ -0,0 +1,148 @@
+import type { EntitlementDefinition, EntitlementInfoModule, EntitlementOffer, PriceDimension, ProjectData } from './types';
+import { parseCsv } from './csv';
+import { toPascalCase, toSnakeCase, uniqueName } from './naming';
+import { validateEntitlement, validatePrice } from './validation';
+
+// ============================================================================
+// CATALOG IMPORT
+// ============================================================================
+// One spreadsheet row becomes an info module, an entitlement and, when the
+// row has a price, an offer for it.
+
+export type CatalogField = 'className' | 'name' | 'description' | 'shortDescription' | 'icon' | 'maxCount' | 'consumable' | 'price';
+
+export const CATALOG_FIELDS: Array<{ field: CatalogField; label: string; required?: boolean; aliases: string[] }> = [
+  { field: 'className', label: 'Class Name', required: true, aliases: ['classname', 'class', 'id', 'entitlement'] },
+  { field: 'name', label: 'Display Name', aliases: ['name', 'displayname', 'title'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'desc'] },
+  { field: 'shortDescription', label: 'Short Description', aliases: ['shortdescription', 'shortdesc', 'short', 'subtitle'] },
+  { field: 'icon', label: 'Icon', aliases: ['icon', 'texture', 'image'] },
+  { field: 'maxCount', label: 'Max Count', aliases: ['maxcount', 'max', 'limit'] },
+  { field: 'consumable', label: 'Consumable', aliases: ['consumable', 'consumed'] },
+  { field: 'price', label: 'Price', aliases: ['price', 'vbucks', 'cost', 'tier'] }
+];
+
+// Column index for each field, or null when the sheet doesn't have it
+export type CatalogMapping = Record<CatalogField, number | null>;
+
+export interface CatalogSheet {
+  header: string[];
+  rows: string[][];
+}
+
+export interface CatalogRow {
+  // 1-based line in the sheet, counting the header
+  line: number;
+  className: string;
+  info: EntitlementInfoModule;
+  entitlement: EntitlementDefinition;
+  offer: EntitlementOffer | null;
+  errors: string[];
+}
+
+export const readCatalogSheet = (text: string): CatalogSheet => {
+  const [header = [], ...rows] = parseCsv(text);
+  return { header: header.map(h => h.trim()), rows };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export const guessCatalogMapping = (header: string[]): CatalogMapping => {
+  const normalized = header.map(normalizeHeader);
+  const mapping = {} as CatalogMapping;
+  CATALOG_FIELDS.forEach(({ field, aliases }) => {
+    const index = aliases.map(alias => normalized.indexOf(alias)).find(i => i >= 0);
+    mapping[field] = index ?? null;
+  });
+  return mapping;
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+// Builds every row and validates it against the project and the rows before
+// it, so a duplicate later in the sheet is reported rather than overwriting.
+export const buildCatalogRows = (data: ProjectData, sheet: CatalogSheet, mapping: CatalogMapping): CatalogRow[] => {
+  const takenInfos = data.entitlementInfos.map(i => i.moduleName);
+  const takenEntitlements = new Set(data.entitlements.map(e => e.className));
+  const takenOffers = [...data.offers.map(o => o.className), ...data.bundles.map(b => b.className)];
+  const tiers = new Map(data.priceTiers.map(t => [t.name.toLowerCase(), t]));
+  const textures = new Set(data.textures.map(t => t.path));
+
+  return sheet.rows.map((cells, r) => {
+    const cell = (field: CatalogField) => {
+      const index = mapping[field];
+      return index === null ? '' : (cells[index] ?? '').trim();
+    };
+    const errors: string[] = [];
+    const raw = cell('className');
+    const className = toSnakeCase(raw);
+    const base = toPascalCase(className) || 'Item';
+
+    const maxCountText = cell('maxCount');
+    const maxCount = maxCountText ? Number(maxCountText) : 1;
+    if (!Number.isInteger(maxCount)) errors.push(`Max count "${maxCountText}" is not a whole number`);
+
+    const consumableText = cell('consumable').toLowerCase();
+    const consumable = TRUE_VALUES.includes(consumableText);
+    if (!consumable && !FALSE_VALUES.includes(consumableText)) {
+      errors.push(`Consumable "${cell('consumable')}" should be true or false`);
+    }
+
+    if (className && takenEntitlements.has(className)) errors.push(`Entitlement "${className}" already exists`);
+    takenEntitlements.add(className);
+
+    const infoModule = uniqueName(`${base}Info`, takenInfos);
+    takenInfos.push(infoModule);
+    const icon = cell('icon') || 'default_icon';
+    if (textures.size > 0 && !textures.has(icon)) errors.push(`Icon "${icon}" is not in the texture registry`);
+    const info: EntitlementInfoModule = {
+      moduleName: infoModule,
+      name: { key: 'name', text: cell('name') },
+      description: { key: 'desc', text: cell('description') },
+      shortDescription: { key: 'short', text: cell('shortDescription') }
+    };
+    const entitlement: EntitlementDefinition = {
+      className,
+      parentClass: 'island_entitlement',
+      infoModule,
+      icon,
+      consequentialToGameplay: true,
+      maxCount,
+      consumable,
+      paidRandomItem: false,
+      paidArea: false
+    };
+    validateEntitlement(entitlement).forEach(err => errors.push(err));
+
+    // A tier name sets the price from the tier; a number is used as-is
+    let offer: EntitlementOffer | null = null;
+    const priceText = cell('price');
+    if (priceText) {
+      const tier = tiers.get(priceText.toLowerCase());
+      const amount = tier ? tier.amount : Number(priceText);
+      if (Number.isNaN(amount)) {
+        errors.push(`Price "${priceText}" is neither a number nor a price tier`);
+      } else {
+        validatePrice(amount).forEach(err => errors.push(err));
+        const price: PriceDimension = tier ? { type: 'vbucks', amount, tier: tier.name } : { type: 'vbucks', amount };
+        const offerName = uniqueName(`${base}Offer`, takenOffers);
+        takenOffers.push(offerName);
+        offer = { className: offerName, infoModule, icon, entitlementType: className, price, linked: true, overrides: [] };
+      }
+    }
+
+    return { line: r + 2, className: className || raw, info, entitlement, offer, errors };
+  });
+};
+
+// Adds the rows that passed validation; failed rows are left out entirely
+export const applyCatalogRows = (data: ProjectData, rows: CatalogRow[]): ProjectData => {
+  const valid = rows.filter(row => row.errors.length === 0);
+  return {
+    ...data,
+    entitlementInfos: [...data.entitlementInfos, ...valid.map(row => row.info)],
+    entitlements: [...data.entitlements, ...valid.map(row => row.entitlement)],
+    offers: [...data.offers, ...valid.flatMap(row => row.offer ? [row.offer] : [])]
+  };
+};
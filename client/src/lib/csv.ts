@@ -0,0 +1,61 @@
+// ============================================================================
+// CSV / TSV
+// ============================================================================
+
+const needsQuotes = (cell: string, delimiter: string) =>
+  cell.includes(delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim();
+
+export const toCsv = (rows: Array<Array<string | number | boolean>>, delimiter = ','): string =>
+  rows.map(row => row.map(value => {
+    const cell = String(value);
+    return needsQuotes(cell, delimiter) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }).join(delimiter)).join('\r\n') + '\r\n';
+
+// Guesses tab vs comma from the header line; spreadsheet pastes are usually tabs
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  return (header.match(/\t/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? '\t' : ',';
+};
+
+// RFC 4180 style reader: quoted cells may contain delimiters, quotes and newlines.
+// Blank lines are skipped.
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
@@ -0,0 +1,102 @@
+// ============================================================================
+// LINE DIFF
+// ============================================================================
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  kind: 'same' | 'added' | 'removed' | 'changed';
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+type Op = { kind: 'same' | 'added' | 'removed'; text: string };
+
+// Largest LCS table worth building (about 16 MB); beyond it the differing
+// middle is shown as a plain replace
+const MAX_CELLS = 4_000_000;
+
+// Longest-common-subsequence over the lines that differ. The shared prefix
+// and suffix are stripped first so typical small edits stay cheap.
+const diffOps = (a: string[], b: string[]): Op[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  const ops: Op[] = a.slice(0, start).map(text => ({ kind: 'same', text }));
+  const suffix = a.slice(endA).map((text): Op => ({ kind: 'same', text }));
+  if (n * m > MAX_CELLS) {
+    midA.forEach(text => ops.push({ kind: 'removed', text }));
+    midB.forEach(text => ops.push({ kind: 'added', text }));
+    return [...ops, ...suffix];
+  }
+
+  const width = m + 1;
+  // lcs[i * width + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      ops.push({ kind: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ kind: 'removed', text: midA[i++] });
+    } else {
+      ops.push({ kind: 'added', text: midB[j++] });
+    }
+  }
+  while (i < n) ops.push({ kind: 'removed', text: midA[i++] });
+  while (j < m) ops.push({ kind: 'added', text: midB[j++] });
+  return [...ops, ...suffix];
+};
+
+// Side-by-side rows: a run of removals followed by additions is paired up
+// line by line as "changed", with any leftovers shown as plain adds/removes.
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const ops = diffOps(before.split(/\r?\n/), after.split(/\r?\n/));
+  const rows: DiffRow[] = [];
+  let leftNo = 1;
+  let rightNo = 1;
+
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].kind === 'same') {
+      rows.push({ kind: 'same', left: { number: leftNo++, text: ops[k].text }, right: { number: rightNo++, text: ops[k].text } });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].kind !== 'same') {
+      (ops[k].kind === 'removed' ? removed : added).push(ops[k].text);
+      k++;
+    }
+    for (let p = 0; p < Math.max(removed.length, added.length); p++) {
+      const left = p < removed.length ? { number: leftNo++, text: removed[p] } : undefined;
+      const right = p < added.length ? { number: rightNo++, text: added[p] } : undefined;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+};
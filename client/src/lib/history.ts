@@ -0,0 +1,113 @@
+import type { ProjectData } from './types';
+
+// ============================================================================
+// UNDO / REDO HISTORY
+// ============================================================================
+// Each step keeps the whole project as it was on the other side of the change.
+// Projects are small, so snapshots are simpler and safer than inverse patches.
+
+export interface HistoryStep {
+  // What the change did, e.g. "Deleted offer starter_pack"
+  label: string;
+  at: number;
+  data: ProjectData;
+}
+
+export interface ProjectHistory {
+  // Oldest first; the last step is what undo restores
+  past: HistoryStep[];
+  // Most recently undone last
+  future: HistoryStep[];
+}
+
+const HISTORY_LIMIT = 50;
+// Same-label changes closer together than this are one step, so typing into a
+// field doesn't fill the history with single characters
+const MERGE_WINDOW_MS = 1500;
+
+export const emptyHistory = (): ProjectHistory => ({ past: [], future: [] });
+
+const SECTIONS = [
+  { key: 'entitlementInfos', noun: 'info module', plural: 'info modules' },
+  { key: 'entitlements', noun: 'entitlement', plural: 'entitlements' },
+  { key: 'offers', noun: 'offer', plural: 'offers' },
+  { key: 'bundles', noun: 'bundle', plural: 'bundles' },
+  { key: 'textures', noun: 'texture', plural: 'textures' },
+  { key: 'parentClasses', noun: 'parent class', plural: 'parent classes' }
+] as const;
+
+// Info modules are keyed by module name, textures by path, custom parent
+// classes by name, everything else by class name
+const itemName = (item: { moduleName?: string; className?: string; path?: string; name?: unknown }) =>
+  item.moduleName ?? item.className ?? item.path ?? (typeof item.name === 'string' ? item.name : '');
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const countOrName = (names: string[], noun: string, plural: string) =>
+  names.length === 1 ? `${noun} ${names[0]}` : `${names.length} ${plural}`;
+
+// Human-readable summary of what changed between two versions of a project
+export const describeChange = (before: ProjectData, after: ProjectData): string => {
+  const parts: string[] = [];
+
+  SECTIONS.forEach(({ key, noun, plural }) => {
+    const oldItems: object[] = before[key];
+    const newItems: object[] = after[key];
+    if (oldItems === newItems) return;
+    const oldByName = new Map(oldItems.map(item => [itemName(item), item]));
+    const newByName = new Map(newItems.map(item => [itemName(item), item]));
+    const removed = [...oldByName.keys()].filter(n => !newByName.has(n));
+    const added = [...newByName.keys()].filter(n => !oldByName.has(n));
+    const edited = [...newByName.keys()].filter(n => oldByName.has(n) && !same(oldByName.get(n), newByName.get(n)));
+
+    if (removed.length === 1 && added.length === 1) {
+      parts.push(`renamed ${noun} ${removed[0]} → ${added[0]}`);
+    } else {
+      if (removed.length > 0) parts.push(`deleted ${countOrName(removed, noun, plural)}`);
+      if (added.length > 0) parts.push(`added ${countOrName(added, noun, plural)}`);
+    }
+    if (edited.length > 0) parts.push(`edited ${countOrName(edited, noun, plural)}`);
+  });
+
+  if (!same(before.localization, after.localization)) parts.push('changed locales');
+  if (!same(before.codegen, after.codegen)) parts.push('changed code generation settings');
+  if (!same(before.templates, after.templates)) parts.push('edited templates');
+  if (!same(before.priceTiers, after.priceTiers)) parts.push('changed price tiers');
+
+  const label = parts.join(', ') || 'edited project';
+  return label[0].toUpperCase() + label.slice(1);
+};
+
+// Adds the change from `before` to `after`; anything previously undone is dropped
+export const recordChange = (history: ProjectHistory, before: ProjectData, after: ProjectData, at: number): ProjectHistory => {
+  if (same(before, after)) return history;
+  const label = describeChange(before, after);
+  const last = history.past[history.past.length - 1];
+  if (last && last.label === label && at - last.at < MERGE_WINDOW_MS) {
+    // Keep the older snapshot so one undo reverts the whole burst
+    return { past: [...history.past.slice(0, -1), { ...last, at }], future: [] };
+  }
+  return { past: [...history.past, { label, at, data: before }].slice(-HISTORY_LIMIT), future: [] };
+};
+
+// Moves one step from `from` to `to`, returning the data to show, or null
+// when there is nothing to move
+const step = (from: HistoryStep[], to: HistoryStep[], current: ProjectData) => {
+  const target = from[from.length - 1];
+  if (!target) return null;
+  return {
+    data: target.data,
+    from: from.slice(0, -1),
+    to: [...to, { label: target.label, at: target.at, data: current }].slice(-HISTORY_LIMIT)
+  };
+};
+
+export const undo = (history: ProjectHistory, current: ProjectData): { data: ProjectData; history: ProjectHistory } | null => {
+  const moved = step(history.past, history.future, current);
+  return moved && { data: moved.data, history: { past: moved.from, future: moved.to } };
+};
+
+export const redo = (history: ProjectHistory, current: ProjectData): { data: ProjectData; history: ProjectHistory } | null => {
+  const moved = step(history.future, history.past, current);
+  return moved && { data: moved.data, history: { past: moved.to, future: moved.from } };
+};
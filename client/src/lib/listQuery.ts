@@ -0,0 +1,110 @@
+import type { BundleOffer, EntitlementDefinition, EntitlementInfoModule, EntitlementOffer, ProjectData } from './types';
+import type { ProjectSection } from './validation';
+import { referencedNames } from './references';
+
+// ============================================================================
+// LIST SEARCH, FILTER AND SORT
+// ============================================================================
+
+export type ListSort = 'created' | 'name' | 'price';
+
+export interface ListQuery {
+  search: string;
+  // Empty for any tag
+  tag: string;
+  sort: ListSort;
+  unreferencedOnly: boolean;
+  // Entitlements only
+  consumable: 'any' | 'consumable' | 'permanent';
+  // Offers and bundles only; null leaves that end open
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+export const emptyListQuery = (): ListQuery => ({
+  search: '',
+  tag: '',
+  sort: 'created',
+  unreferencedOnly: false,
+  consumable: 'any',
+  minPrice: null,
+  maxPrice: null
+});
+
+export const isListFiltered = (query: ListQuery): boolean =>
+  query.search.trim() !== '' || query.tag !== '' || query.unreferencedOnly || query.consumable !== 'any'
+  || query.minPrice !== null || query.maxPrice !== null;
+
+export const hasPrice = (section: ProjectSection): boolean => section === 'offers' || section === 'bundles';
+
+interface SectionItems {
+  entitlementInfos: EntitlementInfoModule;
+  entitlements: EntitlementDefinition;
+  offers: EntitlementOffer;
+  bundles: BundleOffer;
+}
+
+type ListItem = SectionItems[ProjectSection];
+
+const nameOf = (item: ListItem): string => 'moduleName' in item ? item.moduleName : item.className;
+
+// Everything a search can match: names, the display name and tags
+const searchText = (data: ProjectData, item: ListItem): string => {
+  const infoName = 'moduleName' in item ? item.moduleName : item.infoModule;
+  const info = data.entitlementInfos.find(i => i.moduleName === infoName);
+  const related = 'entitlementType' in item ? [item.entitlementType] : [];
+  return [nameOf(item), infoName, info?.name.text ?? '', ...related, ...(item.tags ?? [])].join('\n').toLowerCase();
+};
+
+// ============================================================================
+// TAGS
+// ============================================================================
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+// Every tag used anywhere in the project, sorted
+export const projectTags = (data: ProjectData): string[] => {
+  const items: ListItem[] = [...data.entitlementInfos, ...data.entitlements, ...data.offers, ...data.bundles];
+  return [...new Set(items.flatMap(item => item.tags ?? []))].sort();
+};
+
+export const hasTag = (item: { tags?: string[] }, tag: string): boolean => !tag || !!item.tags?.includes(tag);
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+// Items of a section that match the query, in display order, each with its
+// index in the project so edits and deletes still address the right item
+export const queryList = <S extends ProjectSection>(
+  data: ProjectData, section: S, query: ListQuery
+): Array<[SectionItems[S], number]> => {
+  const items = data[section] as SectionItems[S][];
+  const referenced = query.unreferencedOnly ? referencedNames(data)[section] : null;
+  const terms = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = items
+    .map((item, index): [SectionItems[S], number] => [item, index])
+    .filter(([item]) => {
+      if (terms.length > 0) {
+        const text = searchText(data, item);
+        if (!terms.every(term => text.includes(term))) return false;
+      }
+      if (!hasTag(item, query.tag)) return false;
+      if (referenced && referenced.has(nameOf(item))) return false;
+      if ('consumable' in item && query.consumable !== 'any' && item.consumable !== (query.consumable === 'consumable')) return false;
+      if ('price' in item) {
+        if (query.minPrice !== null && item.price.amount < query.minPrice) return false;
+        if (query.maxPrice !== null && item.price.amount > query.maxPrice) return false;
+      }
+      return true;
+    });
+
+  if (query.sort === 'name') {
+    matches.sort(([a], [b]) => nameOf(a).localeCompare(nameOf(b)));
+  } else if (query.sort === 'price' && hasPrice(section)) {
+    // Stable sort keeps creation order among equal prices
+    matches.sort(([a], [b]) => ('price' in a && 'price' in b ? a.price.amount - b.price.amount : 0));
+  }
+  return matches;
+};
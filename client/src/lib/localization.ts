@@ -0,0 +1,219 @@
+import type { LocalizedMessage, ProjectData } from './types';
+import { parseCsv, toCsv } from './csv';
+import { modulePath } from './verseCodegen';
+
+// ============================================================================
+// STRING TABLE
+// ============================================================================
+// String IDs follow the Verse path of the message, e.g.
+// "EntitlementInfo.SpeedInfo.Name", so they match what UEFN localizes. The
+// prefix follows the project's codegen settings.
+
+export type MessageField = 'name' | 'description' | 'shortDescription';
+
+export interface StringEntry {
+  id: string;
+  index: number;
+  field: MessageField;
+  message: LocalizedMessage;
+}
+
+export interface StringImport {
+  data: ProjectData;
+  updated: number;
+  problems: string[];
+}
+
+const FIELD_SUFFIX: Record<MessageField, string> = {
+  name: 'Name',
+  description: 'Description',
+  shortDescription: 'ShortDescription'
+};
+const FIELDS = Object.keys(FIELD_SUFFIX) as MessageField[];
+
+export const isValidLocale = (code: string) => /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(code);
+
+// Every localized message lives in an info module; entitlements, offers and
+// bundles only reference them.
+export const collectStrings = (data: ProjectData): StringEntry[] => {
+  const prefix = modulePath(data.codegen, 'infoModule');
+  return data.entitlementInfos.flatMap((info, index) => FIELDS.map(field => ({
+    id: `${prefix}.${info.moduleName}.${FIELD_SUFFIX[field]}`,
+    index, field, message: info[field]
+  })));
+};
+
+export const textFor = (message: LocalizedMessage, locale: string, defaultLocale: string): string =>
+  locale === defaultLocale ? message.text : message.translations?.[locale] ?? '';
+
+// Locales with no text for this message; empty default text doesn't count as missing
+export const missingLocales = (message: LocalizedMessage, data: ProjectData): string[] => {
+  const { defaultLocale, locales } = data.localization;
+  if (!message.text.trim()) return [];
+  return locales.filter(locale => locale !== defaultLocale && !message.translations?.[locale]?.trim());
+};
+
+export const countMissing = (messages: LocalizedMessage[], data: ProjectData): number =>
+  messages.reduce((sum, m) => sum + missingLocales(m, data).length, 0);
+
+const withText = (message: LocalizedMessage, locale: string, defaultLocale: string, text: string): LocalizedMessage =>
+  locale === defaultLocale
+    ? { ...message, text }
+    : { ...message, translations: { ...message.translations, [locale]: text } };
+
+const updateMessage = (data: ProjectData, entry: StringEntry, update: (m: LocalizedMessage) => LocalizedMessage): ProjectData => {
+  const infos = [...data.entitlementInfos];
+  infos[entry.index] = { ...infos[entry.index], [entry.field]: update(infos[entry.index][entry.field]) };
+  return { ...data, entitlementInfos: infos };
+};
+
+export const setTranslation = (data: ProjectData, entry: StringEntry, locale: string, text: string): ProjectData =>
+  updateMessage(data, entry, m => withText(m, locale, data.localization.defaultLocale, text));
+
+const mapMessages = (data: ProjectData, update: (m: LocalizedMessage) => LocalizedMessage): ProjectData =>
+  collectStrings(data).reduce((next, entry) => updateMessage(next, entry, update), data);
+
+export const addLocale = (data: ProjectData, locale: string): ProjectData =>
+  data.localization.locales.includes(locale)
+    ? data
+    : { ...data, localization: { ...data.localization, locales: [...data.localization.locales, locale] } };
+
+export const removeLocale = (data: ProjectData, locale: string): ProjectData => {
+  if (locale === data.localization.defaultLocale) return data;
+  const stripped = mapMessages(data, m => {
+    if (!m.translations || !(locale in m.translations)) return m;
+    const translations = { ...m.translations };
+    delete translations[locale];
+    return { ...m, translations };
+  });
+  return {
+    ...stripped,
+    localization: { ...data.localization, locales: data.localization.locales.filter(l => l !== locale) }
+  };
+};
+
+// Swaps the default text with the new default locale's translation so the
+// Verse output switches language without losing any text.
+export const setDefaultLocale = (data: ProjectData, locale: string): ProjectData => {
+  const previous = data.localization.defaultLocale;
+  if (locale === previous) return data;
+  const swapped = mapMessages(data, m => {
+    const translations = { ...m.translations, [previous]: m.text };
+    const text = translations[locale] ?? '';
+    delete translations[locale];
+    return { ...m, text, translations };
+  });
+  return { ...swapped, localization: { ...addLocale(data, locale).localization, defaultLocale: locale } };
+};
+
+// --- CSV ---
+
+export const exportStringsCsv = (data: ProjectData): string => {
+  const { defaultLocale, locales } = data.localization;
+  const ordered = [defaultLocale, ...locales.filter(l => l !== defaultLocale)];
+  return toCsv([
+    ['id', ...ordered],
+    ...collectStrings(data).map(entry => [entry.id, ...ordered.map(l => textFor(entry.message, l, defaultLocale))])
+  ]);
+};
+
+// Applies translator edits. The default-locale column is treated as the
+// source and never written back; empty cells leave existing text alone.
+const applyTranslations = (data: ProjectData, rows: Array<{ where: string; id: string; locale: string; text: string }>): StringImport => {
+  const { defaultLocale, locales } = data.localization;
+  const entries = new Map(collectStrings(data).map(e => [e.id, e]));
+  const problems: string[] = [];
+  const reported = new Set<string>();
+  let next = data;
+  let updated = 0;
+
+  rows.forEach(({ where, id, locale, text }) => {
+    if (locale === defaultLocale || !text) return;
+    if (!locales.includes(locale)) {
+      if (!reported.has(locale)) problems.push(`${where}: locale "${locale}" is not part of this project, skipped`);
+      reported.add(locale);
+      return;
+    }
+    const entry = entries.get(id);
+    if (!entry) {
+      problems.push(`${where}: unknown string id "${id}"`);
+      return;
+    }
+    const current = collectStrings(next).find(e => e.id === id)!;
+    if (textFor(current.message, locale, defaultLocale) === text) return;
+    next = setTranslation(next, current, locale, text);
+    updated++;
+  });
+
+  return { data: next, updated, problems };
+};
+
+export const importStringsCsv = (data: ProjectData, text: string): StringImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || header[0]?.trim().toLowerCase() !== 'id') {
+    return { data, updated: 0, problems: ['First column must be "id"'] };
+  }
+  const localeColumns = header.slice(1).map(h => h.trim());
+  return applyTranslations(data, rows.flatMap((row, r) => localeColumns.map((locale, c) => ({
+    where: `Row ${r + 2}`,
+    id: row[0]?.trim() ?? '',
+    locale,
+    text: row[c + 1] ?? ''
+  }))));
+};
+
+// --- XLIFF 1.2 ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// One <file> per target locale, with the default locale as the source
+export const exportXliff = (data: ProjectData): string => {
+  const { defaultLocale, locales } = data.localization;
+  const strings = collectStrings(data);
+  const files = locales.filter(l => l !== defaultLocale).map(locale => {
+    const units = strings.map(entry => {
+      const target = textFor(entry.message, locale, defaultLocale);
+      return [
+        `      <trans-unit id="${escapeXml(entry.id)}">`,
+        `        <source>${escapeXml(entry.message.text)}</source>`,
+        `        <target${target ? '' : ' state="needs-translation"'}>${escapeXml(target)}</target>`,
+        `      </trans-unit>`
+      ].join('\n');
+    });
+    return [
+      `  <file original="verse-transactions" source-language="${defaultLocale}" target-language="${locale}" datatype="plaintext">`,
+      '    <body>',
+      ...units,
+      '    </body>',
+      '  </file>'
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    ...files,
+    '</xliff>',
+    ''
+  ].join('\n');
+};
+
+export const importXliff = (data: ProjectData, text: string): StringImport => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { data, updated: 0, problems: ['File is not well-formed XML'] };
+  }
+  const files = Array.from(doc.getElementsByTagName('file'));
+  if (files.length === 0) {
+    return { data, updated: 0, problems: ['No <file> elements found'] };
+  }
+  return applyTranslations(data, files.flatMap(file => {
+    const locale = file.getAttribute('target-language') ?? '';
+    return Array.from(file.getElementsByTagName('trans-unit')).map(unit => ({
+      where: `trans-unit ${unit.getAttribute('id')}`,
+      id: unit.getAttribute('id') ?? '',
+      locale,
+      text: unit.getElementsByTagName('target')[0]?.textContent ?? ''
+    }));
+  }));
+};
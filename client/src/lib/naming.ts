@@ -0,0 +1,20 @@
+// "starter_pack" -> "StarterPack"
+export const toPascalCase = (name: string): string =>
+  name.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+
+// "Starter Pack!" -> "starter_pack"
+export const toSnakeCase = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+// Appends a counter until the name doesn't clash with any taken name
+export const uniqueName = (base: string, taken: Iterable<string>): string => {
+  const names = new Set(taken);
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base}${n}`)) n++;
+  return `${base}${n}`;
+};
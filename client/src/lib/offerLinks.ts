@@ -0,0 +1,115 @@
+import type {
+  EntitlementDefinition, EntitlementInfoModule, EntitlementOffer, LinkedOfferField, PriceDimension, ProjectData
+} from './types';
+import { toPascalCase, uniqueName } from './naming';
+import { validateEntitlement, validatePrice } from './validation';
+
+// ============================================================================
+// OFFER ↔ ENTITLEMENT LINKS
+// ============================================================================
+// Linked offers keep their own copy of the inherited fields, updated whenever
+// the entitlement changes, so generators never need to resolve the link.
+
+export const LINKED_OFFER_FIELDS: LinkedOfferField[] = ['infoModule', 'icon'];
+
+export const isInherited = (offer: EntitlementOffer, field: LinkedOfferField): boolean =>
+  !!offer.linked && !offer.overrides?.includes(field);
+
+// Copies inherited fields from the entitlement; returns the same offer when nothing changes
+export const applyEntitlementDefaults = (offer: EntitlementOffer, entitlements: EntitlementDefinition[]): EntitlementOffer => {
+  if (!offer.linked) return offer;
+  const ent = entitlements.find(e => e.className === offer.entitlementType);
+  if (!ent) return offer;
+  const stale = LINKED_OFFER_FIELDS.filter(field => isInherited(offer, field) && offer[field] !== ent[field]);
+  if (stale.length === 0) return offer;
+  return stale.reduce((next, field) => ({ ...next, [field]: ent[field] }), offer);
+};
+
+export const syncLinkedOffers = (data: ProjectData): ProjectData => {
+  const offers = data.offers.map(o => applyEntitlementDefaults(o, data.entitlements));
+  return offers.every((o, i) => o === data.offers[i]) ? data : { ...data, offers };
+};
+
+export const setLinked = (offer: EntitlementOffer, linked: boolean, entitlements: EntitlementDefinition[]): EntitlementOffer => {
+  const unlinked = { ...offer };
+  delete unlinked.linked;
+  delete unlinked.overrides;
+  return linked ? applyEntitlementDefaults({ ...unlinked, linked: true, overrides: [] }, entitlements) : unlinked;
+};
+
+// Sets a field by hand; on a linked offer that makes it an override
+export const overrideField = (offer: EntitlementOffer, field: LinkedOfferField, value: string): EntitlementOffer => {
+  if (!offer.linked) return { ...offer, [field]: value };
+  const overrides = offer.overrides?.includes(field) ? offer.overrides : [...(offer.overrides ?? []), field];
+  return { ...offer, [field]: value, overrides };
+};
+
+export const resetOverride = (offer: EntitlementOffer, field: LinkedOfferField, entitlements: EntitlementDefinition[]): EntitlementOffer =>
+  applyEntitlementDefaults({ ...offer, overrides: (offer.overrides ?? []).filter(f => f !== field) }, entitlements);
+
+// ============================================================================
+// ENTITLEMENT + OFFER WIZARD
+// ============================================================================
+
+export interface EntitlementOfferDraft {
+  className: string;
+  name: string;
+  description: string;
+  shortDescription: string;
+  icon: string;
+  maxCount: number;
+  consumable: boolean;
+  price: PriceDimension;
+}
+
+export interface EntitlementOfferPlan {
+  info: EntitlementInfoModule;
+  entitlement: EntitlementDefinition;
+  offer: EntitlementOffer;
+  errors: string[];
+}
+
+// The info module, entitlement and linked offer the draft turns into
+export const planEntitlementWithOffer = (data: ProjectData, draft: EntitlementOfferDraft): EntitlementOfferPlan => {
+  const base = toPascalCase(draft.className) || 'Item';
+  const infoModule = uniqueName(`${base}Info`, data.entitlementInfos.map(i => i.moduleName));
+  const offerName = uniqueName(`${base}Offer`, [...data.offers.map(o => o.className), ...data.bundles.map(b => b.className)]);
+
+  const info: EntitlementInfoModule = {
+    moduleName: infoModule,
+    name: { key: 'name', text: draft.name },
+    description: { key: 'desc', text: draft.description },
+    shortDescription: { key: 'short', text: draft.shortDescription }
+  };
+  const entitlement: EntitlementDefinition = {
+    className: draft.className,
+    parentClass: 'island_entitlement',
+    infoModule,
+    icon: draft.icon,
+    consequentialToGameplay: true,
+    maxCount: draft.maxCount,
+    consumable: draft.consumable,
+    paidRandomItem: false,
+    paidArea: false
+  };
+  const offer: EntitlementOffer = {
+    className: offerName,
+    infoModule,
+    icon: draft.icon,
+    entitlementType: draft.className,
+    price: draft.price,
+    linked: true,
+    overrides: []
+  };
+
+  const errors = [...validateEntitlement(entitlement), ...validatePrice(draft.price.amount)];
+  if (data.entitlements.some(e => e.className === draft.className)) errors.push(`Entitlement "${draft.className}" already exists`);
+  return { info, entitlement, offer, errors };
+};
+
+export const addEntitlementWithOffer = (data: ProjectData, plan: EntitlementOfferPlan): ProjectData => ({
+  ...data,
+  entitlementInfos: [...data.entitlementInfos, plan.info],
+  entitlements: [...data.entitlements, plan.entitlement],
+  offers: [...data.offers, plan.offer]
+});
@@ -0,0 +1,111 @@
+import type { CustomParentClass, EntitlementDefinition, ProjectData } from './types';
+
+// ============================================================================
+// CUSTOM PARENT CLASSES
+// ============================================================================
+// User-defined abstract entitlement classes. Each extends a built-in parent or
+// another custom class, and entitlements can extend any of them.
+
+export const BUILTIN_PARENT_CLASSES = ['island_entitlement', 'cosmetic_entitlement'] as const;
+
+export const isBuiltinParent = (name: string): name is typeof BUILTIN_PARENT_CLASSES[number] =>
+  (BUILTIN_PARENT_CLASSES as readonly string[]).includes(name);
+
+// Name of the class an entitlement extends
+export const entitlementParent = (ent: EntitlementDefinition): string =>
+  (ent.parentClass === 'custom' ? ent.customParent : ent.parentClass) ?? '';
+
+// Chain of class names that leads back to `start`, e.g. ["a", "b", "a"],
+// or null when following parents ends at a built-in or unknown class
+export const findParentCycle = (classes: CustomParentClass[], start: string): string[] | null => {
+  const parents = new Map(classes.map(c => [c.name, c.parent]));
+  const path = [start];
+  let current = parents.get(start);
+  while (current !== undefined && parents.has(current)) {
+    if (current === start) return [...path, start];
+    // A cycle further up that doesn't pass through start is reported for its own members
+    if (path.includes(current)) return null;
+    path.push(current);
+    current = parents.get(current);
+  }
+  return null;
+};
+
+// Whether making `parent` the parent of `name` would loop back to `name`
+export const wouldCreateParentCycle = (classes: CustomParentClass[], name: string, parent: string): boolean =>
+  findParentCycle(classes.map(c => c.name === name ? { ...c, parent } : c), name) !== null;
+
+// Parents before children, so every class is declared after the one it extends.
+// Classes caught in a cycle are left out; validation reports them.
+export const orderParentClasses = (classes: CustomParentClass[]): CustomParentClass[] => {
+  const byName = new Map(classes.map(c => [c.name, c]));
+  const ordered: CustomParentClass[] = [];
+  const done = new Set<string>();
+  const visit = (cls: CustomParentClass, visiting: Set<string>): boolean => {
+    if (done.has(cls.name)) return true;
+    if (visiting.has(cls.name)) return false;
+    visiting.add(cls.name);
+    const parent = byName.get(cls.parent);
+    if (parent && !visit(parent, visiting)) return false;
+    done.add(cls.name);
+    ordered.push(cls);
+    return true;
+  };
+  classes.forEach(cls => visit(cls, new Set()));
+  return ordered;
+};
+
+// Built-in class at the top of a custom class's chain, or null for a cycle or
+// an unknown parent
+export const builtinRoot = (classes: CustomParentClass[], name: string): string | null => {
+  const parents = new Map(classes.map(c => [c.name, c.parent]));
+  const seen = new Set<string>();
+  let current = name;
+  while (parents.has(current)) {
+    if (seen.has(current)) return null;
+    seen.add(current);
+    current = parents.get(current)!;
+  }
+  return isBuiltinParent(current) ? current : null;
+};
+
+export const addParentClass = (data: ProjectData, cls: CustomParentClass): ProjectData =>
+  ({ ...data, parentClasses: [...data.parentClasses, cls] });
+
+export const setParentClassParent = (data: ProjectData, name: string, parent: string): ProjectData =>
+  ({ ...data, parentClasses: data.parentClasses.map(c => c.name === name ? { ...c, parent } : c) });
+
+// Renames the class and everything that extends it
+export const renameParentClass = (data: ProjectData, oldName: string, newName: string): ProjectData => {
+  if (oldName === newName) return data;
+  return {
+    ...data,
+    parentClasses: data.parentClasses.map(c => ({
+      name: c.name === oldName ? newName : c.name,
+      parent: c.parent === oldName ? newName : c.parent
+    })),
+    entitlements: data.entitlements.map(ent =>
+      ent.parentClass === 'custom' && ent.customParent === oldName ? { ...ent, customParent: newName } : ent)
+  };
+};
+
+// Children of the removed class move up to its parent
+export const removeParentClass = (data: ProjectData, name: string): ProjectData => {
+  const removed = data.parentClasses.find(c => c.name === name);
+  if (!removed) return data;
+  const parent = removed.parent;
+  return {
+    ...data,
+    parentClasses: data.parentClasses
+      .filter(c => c.name !== name)
+      .map(c => c.parent === name ? { ...c, parent } : c),
+    entitlements: data.entitlements.map(ent => {
+      if (ent.parentClass !== 'custom' || ent.customParent !== name) return ent;
+      return isBuiltinParent(parent) ? { ...ent, parentClass: parent, customParent: undefined } : { ...ent, customParent: parent };
+    })
+  };
+};
+
+export const parentClassUsage = (data: ProjectData, name: string): number =>
+  data.parentClasses.filter(c => c.parent === name).length
+  + data.entitlements.filter(ent => ent.parentClass === 'custom' && ent.customParent === name).length;
@@ -0,0 +1,100 @@
+import type { PriceDimension, ProjectData } from './types';
+
+// ============================================================================
+// PRICE TIERS
+// ============================================================================
+
+// Items on a tier keep their own amount in sync with it, so generators and
+// validation never need to look the tier up.
+const repriceItems = (data: ProjectData, update: (price: PriceDimension) => PriceDimension): ProjectData => ({
+  ...data,
+  offers: data.offers.map(o => {
+    const price = update(o.price);
+    return price === o.price ? o : { ...o, price };
+  }),
+  bundles: data.bundles.map(b => {
+    const price = update(b.price);
+    return price === b.price ? b : { ...b, price };
+  })
+});
+
+export const addTier = (data: ProjectData, name: string, amount: number): ProjectData =>
+  ({ ...data, priceTiers: [...data.priceTiers, { name, amount }] });
+
+export const setTierAmount = (data: ProjectData, name: string, amount: number): ProjectData => {
+  const repriced = repriceItems(data, price => price.tier === name ? { ...price, amount } : price);
+  return { ...repriced, priceTiers: data.priceTiers.map(t => t.name === name ? { ...t, amount } : t) };
+};
+
+export const renameTier = (data: ProjectData, oldName: string, newName: string): ProjectData => {
+  if (oldName === newName) return data;
+  const renamed = repriceItems(data, price => price.tier === oldName ? { ...price, tier: newName } : price);
+  return { ...renamed, priceTiers: data.priceTiers.map(t => t.name === oldName ? { ...t, name: newName } : t) };
+};
+
+// Items keep their current amount and simply stop following the tier
+export const removeTier = (data: ProjectData, name: string): ProjectData => {
+  const detached = repriceItems(data, price => price.tier === name ? { type: price.type, amount: price.amount } : price);
+  return { ...detached, priceTiers: data.priceTiers.filter(t => t.name !== name) };
+};
+
+export const tierUsage = (data: ProjectData, name: string): number =>
+  [...data.offers, ...data.bundles].filter(item => item.price.tier === name).length;
+
+// ============================================================================
+// EXCHANGE TABLE
+// ============================================================================
+// What a V-Bucks pack costs in each currency. It's a designer's rule of thumb,
+// not project data, so it lives in this browser only.
+
+export interface ExchangeRate {
+  currency: string;
+  vbucks: number;
+  price: number;
+}
+
+const EXCHANGE_KEY = 'verse-transactions:exchange-rates';
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { currency: 'USD', vbucks: 1000, price: 8.99 },
+  { currency: 'EUR', vbucks: 1000, price: 8.99 },
+  { currency: 'GBP', vbucks: 1000, price: 7.99 }
+];
+
+const isExchangeRate = (value: unknown): value is ExchangeRate => {
+  const rate = value as Partial<ExchangeRate> | null;
+  return typeof rate === 'object' && rate !== null && typeof rate.currency === 'string'
+    && Number.isFinite(rate.vbucks) && Number.isFinite(rate.price);
+};
+
+export const loadExchangeRates = (): ExchangeRate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(EXCHANGE_KEY) ?? 'null');
+    return Array.isArray(stored) ? stored.filter(isExchangeRate) : DEFAULT_EXCHANGE_RATES;
+  } catch {
+    return DEFAULT_EXCHANGE_RATES;
+  }
+};
+
+// Runs from an effect, so a full storage must not throw; the rates are only
+// a convenience and stay in memory for this session
+export const saveExchangeRates = (rates: ExchangeRate[]) => {
+  try {
+    localStorage.setItem(EXCHANGE_KEY, JSON.stringify(rates));
+  } catch (err) {
+    console.error('Failed to save exchange rates', err);
+  }
+};
+
+export const toRealMoney = (amount: number, rate: ExchangeRate): number | null =>
+  rate.vbucks > 0 ? (amount / rate.vbucks) * rate.price : null;
+
+export const formatMoney = (value: number | null, currency: string): string => {
+  if (value === null || !Number.isFinite(value)) return '–';
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+  } catch {
+    // Not an ISO currency code; still show something useful
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,156 @@
+import type { ProjectData } from './types';
+import { SCHEMA_VERSION, migrateProjectData, type ProjectDataJson } from './storage';
+import { validateEntitlement, validatePrice } from './validation';
+import { BUNDLE_ENTRY_KINDS } from './bundleContents';
+
+// ============================================================================
+// PROJECT FILE IMPORT / EXPORT
+// ============================================================================
+
+const FILE_FORMAT = 'verse-transactions-project';
+
+export interface ProjectFile {
+  format: typeof FILE_FORMAT;
+  schemaVersion: number;
+  name: string;
+  exportedAt: string;
+  data: ProjectData;
+}
+
+export interface ProjectImport {
+  name: string;
+  data: ProjectData;
+  // Everything wrong with the file; empty when it's safe to import as-is
+  problems: string[];
+}
+
+export const serializeProjectFile = (name: string, data: ProjectData): string => {
+  const file: ProjectFile = {
+    format: FILE_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    data
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkFields = (
+  item: unknown,
+  path: string,
+  fields: Record<string, 'string' | 'number' | 'boolean' | 'message' | 'price' | 'array'>,
+  problems: string[]
+): boolean => {
+  if (!isObject(item)) {
+    problems.push(`${path}: expected an object`);
+    return false;
+  }
+  let ok = true;
+  Object.entries(fields).forEach(([field, kind]) => {
+    const value = item[field];
+    const valid =
+      kind === 'message' ? isObject(value) && typeof value.text === 'string' :
+      kind === 'price' ? isObject(value) && value.type === 'vbucks' && typeof value.amount === 'number' :
+      kind === 'array' ? Array.isArray(value) :
+      typeof value === kind;
+    if (!valid) {
+      problems.push(`${path}.${field}: expected ${kind === 'price' ? 'a V-Bucks price' : kind}`);
+      ok = false;
+    }
+  });
+  return ok;
+};
+
+// Checks every record and collects all problems rather than stopping at the
+// first. Records too malformed to edit safely are dropped from the result.
+export const checkProjectData = (data: ProjectData): { data: ProjectData; problems: string[] } => {
+  const problems: string[] = [];
+  const skipped = (path: string) => problems.push(`${path}: record skipped`);
+
+  const entitlementInfos = data.entitlementInfos.filter((info, i) => {
+    const ok = checkFields(info, `entitlementInfos[${i}]`, {
+      moduleName: 'string', name: 'message', description: 'message', shortDescription: 'message'
+    }, problems);
+    if (!ok) skipped(`entitlementInfos[${i}]`);
+    return ok;
+  });
+
+  const entitlements = data.entitlements.filter((ent, i) => {
+    const path = `entitlements[${i}]`;
+    const ok = checkFields(ent, path, {
+      className: 'string', parentClass: 'string', infoModule: 'string', icon: 'string',
+      consequentialToGameplay: 'boolean', maxCount: 'number', consumable: 'boolean'
+    }, problems);
+    if (!ok) {
+      skipped(path);
+      return false;
+    }
+    validateEntitlement(ent).forEach(err => problems.push(`${path} (${ent.className}): ${err}`));
+    return true;
+  });
+
+  const offers = data.offers.filter((offer, i) => {
+    const path = `offers[${i}]`;
+    const ok = checkFields(offer, path, {
+      className: 'string', infoModule: 'string', icon: 'string', entitlementType: 'string', price: 'price'
+    }, problems);
+    if (!ok) {
+      skipped(path);
+      return false;
+    }
+    validatePrice(offer.price.amount).forEach(err => problems.push(`${path} (${offer.className}): ${err}`));
+    return true;
+  });
+
+  const bundles = data.bundles.filter((bundle, i) => {
+    const path = `bundles[${i}]`;
+    const ok = checkFields(bundle, path, {
+      className: 'string', infoModule: 'string', icon: 'string', offers: 'array', price: 'price'
+    }, problems)
+      && bundle.offers.every((entry, j) => {
+        const entryPath = `${path}.offers[${j}]`;
+        if (!checkFields(entry, entryPath, { offerRef: 'string', quantity: 'number' }, problems)) return false;
+        if (entry.kind !== undefined && !BUNDLE_ENTRY_KINDS.includes(entry.kind)) {
+          problems.push(`${entryPath}.kind: expected one of ${BUNDLE_ENTRY_KINDS.join(', ')}`);
+          return false;
+        }
+        return true;
+      });
+    if (!ok) {
+      skipped(path);
+      return false;
+    }
+    validatePrice(bundle.price.amount).forEach(err => problems.push(`${path} (${bundle.className}): ${err}`));
+    return true;
+  });
+
+  return { data: { ...data, entitlementInfos, entitlements, offers, bundles }, problems };
+};
+
+// Throws when the file can't be read at all; record-level issues come back as problems
+export const parseProjectFile = (text: string, fallbackName: string): ProjectImport => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${(err as Error).message}`);
+  }
+  if (!isObject(json) || json.format !== FILE_FORMAT) {
+    throw new Error('Not a Verse Transactions project file');
+  }
+  if (typeof json.schemaVersion !== 'number') {
+    throw new Error('Project file is missing its schemaVersion');
+  }
+  if (!isObject(json.data)) {
+    throw new Error('Project file has no data section');
+  }
+
+  // Malformed settings are dropped while normalizing, item records while checking
+  const dropped: string[] = [];
+  const { data, problems } = checkProjectData(migrateProjectData(json.data as ProjectDataJson, json.schemaVersion, dropped));
+  const name = typeof json.name === 'string' && json.name ? json.name : fallbackName;
+  return { name, data, problems: [...dropped, ...problems] };
+};
@@ -0,0 +1,143 @@
+import type { BundleEntry, BundleEntryKind, ProjectData } from './types';
+import type { ProjectSection } from './validation';
+import { entryKind } from './bundleContents';
+
+// ============================================================================
+// CROSS-REFERENCES
+// ============================================================================
+
+export interface Dependent {
+  section: ProjectSection;
+  name: string;
+  // What happens to it when the referenced item is deleted
+  effect: 'deleted' | 'entry removed';
+}
+
+export interface DeletePlan {
+  section: ProjectSection;
+  index: number;
+  name: string;
+  dependents: Dependent[];
+  // Project after the item and everything depending on it are gone
+  result: ProjectData;
+}
+
+export const itemName = (data: ProjectData, section: ProjectSection, index: number): string =>
+  section === 'entitlementInfos' ? data.entitlementInfos[index].moduleName : data[section][index].className;
+
+// Works out everything a delete drags along with it. Anything that loses its
+// info module or entitlement goes too; bundles only lose the entries pointing
+// at deleted offers, bundles or entitlements.
+export const planDelete = (data: ProjectData, section: ProjectSection, index: number): DeletePlan => {
+  const name = itemName(data, section, index);
+  const dependents: Dependent[] = [];
+
+  const removedInfos = new Set(section === 'entitlementInfos' ? [name] : []);
+  const entitlementInfos = data.entitlementInfos.filter((_, i) => !(section === 'entitlementInfos' && i === index));
+
+  const removedEntitlements = new Set<string>();
+  const entitlements = data.entitlements.filter((ent, i) => {
+    if (section === 'entitlements' && i === index) {
+      removedEntitlements.add(ent.className);
+      return false;
+    }
+    if (removedInfos.has(ent.infoModule)) {
+      removedEntitlements.add(ent.className);
+      dependents.push({ section: 'entitlements', name: ent.className, effect: 'deleted' });
+      return false;
+    }
+    return true;
+  });
+
+  const removedOffers = new Set<string>();
+  const offers = data.offers.filter((offer, i) => {
+    if (section === 'offers' && i === index) {
+      removedOffers.add(offer.className);
+      return false;
+    }
+    if (removedInfos.has(offer.infoModule) || removedEntitlements.has(offer.entitlementType)) {
+      removedOffers.add(offer.className);
+      dependents.push({ section: 'offers', name: offer.className, effect: 'deleted' });
+      return false;
+    }
+    return true;
+  });
+
+  const removedBundles = new Set<string>();
+  const bundles = data.bundles
+    .filter((bundle, i) => {
+      if (section === 'bundles' && i === index) {
+        removedBundles.add(bundle.className);
+        return false;
+      }
+      if (removedInfos.has(bundle.infoModule)) {
+        removedBundles.add(bundle.className);
+        dependents.push({ section: 'bundles', name: bundle.className, effect: 'deleted' });
+        return false;
+      }
+      return true;
+    })
+    .map(bundle => {
+      const removed = { offer: removedOffers, bundle: removedBundles, entitlement: removedEntitlements };
+      const kept = bundle.offers.filter(entry => !removed[entryKind(entry)].has(entry.offerRef));
+      if (kept.length === bundle.offers.length) return bundle;
+      dependents.push({ section: 'bundles', name: bundle.className, effect: 'entry removed' });
+      return { ...bundle, offers: kept };
+    });
+
+  return {
+    section,
+    index,
+    name,
+    dependents,
+    result: { ...data, entitlementInfos, entitlements, offers, bundles }
+  };
+};
+
+// Names each section's items are referenced by, e.g. offers sold in a bundle
+// or entitlements an offer grants
+export const referencedNames = (data: ProjectData): Record<ProjectSection, Set<string>> => {
+  const entries = data.bundles.flatMap(b => b.offers);
+  const entriesOf = (kind: BundleEntryKind) => entries.filter(entry => entryKind(entry) === kind).map(entry => entry.offerRef);
+  return {
+    entitlementInfos: new Set([...data.entitlements, ...data.offers, ...data.bundles].map(item => item.infoModule)),
+    entitlements: new Set([...data.offers.map(o => o.entitlementType), ...entriesOf('entitlement')]),
+    offers: new Set(entriesOf('offer')),
+    bundles: new Set(entriesOf('bundle'))
+  };
+};
+
+// Points every reference at the old name to the new one
+export const renameReferences = (data: ProjectData, section: ProjectSection, oldName: string, newName: string): ProjectData => {
+  if (oldName === newName) return data;
+  switch (section) {
+    case 'entitlementInfos':
+      return {
+        ...data,
+        entitlements: data.entitlements.map(e => e.infoModule === oldName ? { ...e, infoModule: newName } : e),
+        offers: data.offers.map(o => o.infoModule === oldName ? { ...o, infoModule: newName } : o),
+        bundles: data.bundles.map(b => b.infoModule === oldName ? { ...b, infoModule: newName } : b)
+      };
+    case 'entitlements':
+      return {
+        ...renameEntries(data, 'entitlement', oldName, newName),
+        offers: data.offers.map(o => o.entitlementType === oldName ? { ...o, entitlementType: newName } : o)
+      };
+    case 'offers':
+      return renameEntries(data, 'offer', oldName, newName);
+    case 'bundles':
+      return renameEntries(data, 'bundle', oldName, newName);
+    default:
+      return data;
+  }
+};
+
+const renameEntries = (data: ProjectData, kind: BundleEntryKind, oldName: string, newName: string): ProjectData => {
+  const matches = (entry: BundleEntry) => entryKind(entry) === kind && entry.offerRef === oldName;
+  return {
+    ...data,
+    bundles: data.bundles.map(b => b.offers.some(matches)
+      ? { ...b, offers: b.offers.map(entry => matches(entry) ? { ...entry, offerRef: newName } : entry) }
+      : b)
+  };
+};
@@ -0,0 +1,369 @@
+import type { BundleOffer, CodegenSettings, EntitlementInfoModule, LocalizationSettings, PriceDimension, ProjectData } from './types';
+import { toPascalCase, uniqueName } from './naming';
+import type { HistoryStep, ProjectHistory } from './history';
+import { loadTexturePreviews, saveTexturePreviews, type TexturePreviews } from './textures';
+
+// ============================================================================
+// LOCAL PERSISTENCE
+// ============================================================================
+
+// Bump this whenever the shape of ProjectData changes and add a matching
+// entry to MIGRATIONS so older saves keep loading.
+export const SCHEMA_VERSION = 9;
+
+const STORAGE_KEY = 'verse-transactions:workspace';
+// Undo history is stored apart from the projects and trimmed to fit a budget,
+// so it can never crowd the projects themselves out of storage
+const HISTORY_KEY = `${STORAGE_KEY}:history`;
+const HISTORY_BUDGET = 1_000_000; // characters of JSON
+
+// Verse output as last copied out of the tool, used as a diff baseline
+export interface VerseSnapshot {
+  code: string;
+  takenAt: number;
+}
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  updatedAt: number;
+  data: ProjectData;
+  verseSnapshot?: VerseSnapshot;
+  // Saved under HISTORY_KEY rather than with the project
+  history?: ProjectHistory;
+}
+
+interface StoredHistories {
+  schemaVersion: number;
+  // By project id
+  histories: Record<string, ProjectHistory>;
+}
+
+export interface Workspace {
+  schemaVersion: number;
+  activeProjectId: string;
+  projects: SavedProject[];
+}
+
+// Raw JSON as read from storage or a project file, before migrations have run
+type WorkspaceJson = { schemaVersion?: number } & Record<string, unknown>;
+export type ProjectDataJson = Record<string, unknown>;
+
+// Each entry upgrades one project's data from version N to N + 1
+const MIGRATIONS: Record<number, (data: ProjectDataJson) => ProjectDataJson> = {
+  // v2: per-locale translations; existing text becomes the English default
+  1: data => ({ ...data, localization: data.localization ?? defaultLocalization() }),
+  // v3: bundles reference an info module instead of carrying inline strings
+  2: data => {
+    const infos = Array.isArray(data.entitlementInfos) ? [...data.entitlementInfos] as EntitlementInfoModule[] : [];
+    const taken = infos.map(i => i.moduleName);
+    const bundles = (Array.isArray(data.bundles) ? data.bundles : []).map((legacy: LegacyBundle) => {
+      const { name, description, shortDescription, ...bundle } = legacy;
+      if (bundle.infoModule) return bundle;
+      const moduleName = uniqueName(`${toPascalCase(bundle.className ?? '') || 'Bundle'}BundleInfo`, taken);
+      taken.push(moduleName);
+      infos.push({
+        moduleName,
+        name: name ?? { key: 'name', text: '' },
+        description: description ?? { key: 'desc', text: '' },
+        shortDescription: shortDescription ?? { key: 'short', text: '' }
+      });
+      return { ...bundle, infoModule: moduleName };
+    });
+    return { ...data, entitlementInfos: infos, bundles };
+  },
+  // v4: configurable module names; existing projects keep the old offers
+  // module name so code already referencing it still compiles
+  3: data => ({ ...data, codegen: data.codegen ?? { ...defaultCodegen(), offersModule: 'ExampleOffers' } }),
+  // v5: user template overrides
+  4: data => ({ ...data, templates: data.templates ?? {} }),
+  // v6: named price tiers
+  5: data => ({ ...data, priceTiers: data.priceTiers ?? [] }),
+  // v7: texture registry for icon fields
+  6: data => ({ ...data, textures: data.textures ?? [] }),
+  // v8: custom abstract parent classes. Custom parents already in use stay
+  // external references rather than being declared, so nothing is defined twice
+  7: data => ({ ...data, parentClasses: data.parentClasses ?? [] }),
+  // v9: texture previews move out of project data into their own cache
+  8: data => ({
+    ...data,
+    textures: (Array.isArray(data.textures) ? data.textures : []).map((t: LegacyTexture) => ({ path: t.path }))
+  })
+};
+
+// Texture shape before v9
+type LegacyTexture = { path: string; preview?: string };
+
+// Previews saved inside projects before v9, so upgrading keeps them
+const legacyTexturePreviews = (workspace: WorkspaceJson): TexturePreviews => {
+  const previews: TexturePreviews = {};
+  (Array.isArray(workspace.projects) ? workspace.projects : []).forEach((p: Partial<SavedProject>) => {
+    const textures = (p.data as ProjectDataJson | undefined)?.textures;
+    (Array.isArray(textures) ? textures : []).forEach((t: LegacyTexture) => {
+      if (t?.preview) previews[t.path] = t.preview;
+    });
+  });
+  return previews;
+};
+
+// Bundle shape before v3
+type LegacyBundle = Partial<BundleOffer> & Partial<Pick<EntitlementInfoModule, 'name' | 'description' | 'shortDescription'>>;
+
+const defaultLocalization = (): LocalizationSettings => ({ defaultLocale: 'en', locales: ['en'] });
+
+export const defaultCodegen = (): CodegenSettings => ({
+  namespace: '',
+  infoModule: 'EntitlementInfo',
+  entitlementsModule: 'Entitlements',
+  offersModule: 'Offers',
+  bundlesModule: 'BundleOffers',
+  header: 'Generated UEFN In-Island Transactions Code - VERSE TRANSACTIONS by @encryptedasset\nDo not modify manually - regenerate from configurator'
+});
+
+export const emptyProjectData = (): ProjectData => ({
+  entitlementInfos: [],
+  entitlements: [],
+  offers: [],
+  bundles: [],
+  localization: defaultLocalization(),
+  codegen: defaultCodegen(),
+  templates: {},
+  priceTiers: [],
+  textures: [],
+  parentClasses: []
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Elements of a list that have the expected shape. Anything else is dropped
+// and, when the caller collects problems, reported.
+const keepValid = <T>(
+  list: unknown, path: string, expected: string, isValid: (item: Record<string, unknown>) => boolean, problems?: string[]
+): T[] => {
+  if (list === undefined) return [];
+  if (!Array.isArray(list)) {
+    problems?.push(`${path}: expected an array`);
+    return [];
+  }
+  return list.filter((item, i) => {
+    if (isRecord(item) && isValid(item)) return true;
+    problems?.push(`${path}[${i}]: expected ${expected}`, `${path}[${i}]: record skipped`);
+    return false;
+  });
+};
+
+// Settings object with only its string values, so a malformed field falls
+// back to its default instead of reaching the generators
+const stringEntries = (value: unknown, path: string, problems?: string[]): Record<string, string> => {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    problems?.push(`${path}: expected an object`);
+    return {};
+  }
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => {
+    if (typeof entry[1] === 'string') return true;
+    problems?.push(`${path}.${entry[0]}: expected string`);
+    return false;
+  }));
+};
+
+// Items keep everything but tags that aren't a list of strings
+const withValidTags = <T extends { tags?: string[] }>(items: T[], path: string, problems?: string[]): T[] =>
+  items.map((item, i) => {
+    const tags: unknown = isRecord(item) ? item.tags : undefined;
+    if (tags === undefined || (Array.isArray(tags) && tags.every(tag => typeof tag === 'string'))) return item;
+    problems?.push(`${path}[${i}].tags: expected an array of strings; tags dropped`);
+    const cleaned = { ...item };
+    delete cleaned.tags;
+    return cleaned;
+  });
+
+// Priced items keep a usable price: an amount that isn't a number (a cleared
+// input saved as null, say) becomes 0, which validation then reports
+const withValidPrices = <T extends { price: PriceDimension }>(items: T[], path: string, problems?: string[]): T[] =>
+  items.map((item, i) => {
+    if (!isRecord(item)) return item;
+    const price: unknown = item.price;
+    if (isRecord(price) && typeof price.amount === 'number' && Number.isFinite(price.amount)) return item;
+    problems?.push(`${path}[${i}].price: expected a V-Bucks amount; reset to 0`);
+    return { ...item, price: { type: 'vbucks', amount: 0 } };
+  });
+
+// Fills in any list missing from partially written or hand-edited data and
+// drops settings entries too malformed to use, noting them in `problems`
+export const normalizeProjectData = (data: Partial<ProjectData> | undefined, problems?: string[]): ProjectData => ({
+  entitlementInfos: withValidTags(Array.isArray(data?.entitlementInfos) ? data.entitlementInfos : [], 'entitlementInfos', problems),
+  entitlements: withValidTags(Array.isArray(data?.entitlements) ? data.entitlements : [], 'entitlements', problems),
+  offers: withValidPrices(withValidTags(Array.isArray(data?.offers) ? data.offers : [], 'offers', problems), 'offers', problems),
+  bundles: withValidPrices(withValidTags(Array.isArray(data?.bundles) ? data.bundles : [], 'bundles', problems), 'bundles', problems),
+  localization: data?.localization?.defaultLocale && Array.isArray(data.localization.locales)
+    ? data.localization
+    : defaultLocalization(),
+  codegen: { ...defaultCodegen(), ...stringEntries(data?.codegen, 'codegen', problems) },
+  templates: stringEntries(data?.templates, 'templates', problems),
+  priceTiers: keepValid(data?.priceTiers, 'priceTiers', 'a tier with a string name and a number amount',
+    tier => typeof tier.name === 'string' && typeof tier.amount === 'number', problems),
+  textures: keepValid(data?.textures, 'textures', 'a texture with a string path',
+    texture => typeof texture.path === 'string', problems),
+  parentClasses: keepValid(data?.parentClasses, 'parentClasses', 'a class with a string name and parent',
+    cls => typeof cls.name === 'string' && typeof cls.parent === 'string', problems)
+});
+
+export const createProject = (name: string, data: ProjectData = emptyProjectData()): SavedProject => ({
+  id: crypto.randomUUID(),
+  name,
+  updatedAt: Date.now(),
+  data
+});
+
+const createWorkspace = (): Workspace => {
+  const project = createProject('Untitled Project');
+  return { schemaVersion: SCHEMA_VERSION, activeProjectId: project.id, projects: [project] };
+};
+
+export const migrateProjectData = (raw: ProjectDataJson, fromVersion: number, problems?: string[]): ProjectData => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Data uses schema v${fromVersion}, this build only understands up to v${SCHEMA_VERSION}`);
+  }
+  let data = raw;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from schema v${version}`);
+    data = migrate(data);
+  }
+  return normalizeProjectData(data as Partial<ProjectData>, problems);
+};
+
+// Undo steps hold whole projects, so they're upgraded along with the project
+const migrateHistory = (history: ProjectHistory, fromVersion: number): ProjectHistory => {
+  const upgrade = (steps: HistoryStep[] | undefined) => (Array.isArray(steps) ? steps : [])
+    .map(step => ({ ...step, data: migrateProjectData(step.data as unknown as ProjectDataJson, fromVersion) }));
+  return { past: upgrade(history.past), future: upgrade(history.future) };
+};
+
+export const migrateWorkspace = (workspace: WorkspaceJson): Workspace => {
+  const version = workspace.schemaVersion ?? 1;
+  const projects = (Array.isArray(workspace.projects) ? workspace.projects : [])
+    .map((p: Partial<SavedProject>) => ({
+      id: p.id || crypto.randomUUID(),
+      name: p.name || 'Untitled Project',
+      updatedAt: p.updatedAt || Date.now(),
+      data: migrateProjectData((p.data ?? {}) as ProjectDataJson, version),
+      ...(p.verseSnapshot ? { verseSnapshot: p.verseSnapshot } : {}),
+      ...(p.history ? { history: migrateHistory(p.history, version) } : {})
+    }));
+  if (projects.length === 0) return createWorkspace();
+
+  const activeProjectId = projects.some(p => p.id === workspace.activeProjectId)
+    ? workspace.activeProjectId as string
+    : projects[0].id;
+  return { schemaVersion: SCHEMA_VERSION, activeProjectId, projects };
+};
+
+export const loadWorkspace = (): Workspace => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return createWorkspace();
+  try {
+    const raw = JSON.parse(stored);
+    if ((raw.schemaVersion ?? 1) < 9) {
+      const previews = legacyTexturePreviews(raw);
+      if (Object.keys(previews).length > 0) saveTexturePreviews({ ...previews, ...loadTexturePreviews() });
+    }
+    return migrateWorkspace(withStoredHistories(raw));
+  } catch (err) {
+    // Keep the unreadable save around so autosave doesn't destroy it
+    console.error('Failed to restore saved projects', err);
+    localStorage.setItem(`${STORAGE_KEY}:backup`, stored);
+    return createWorkspace();
+  }
+};
+
+// Attaches histories saved under their own key to the projects they belong to.
+// Saves from before that split carry their history inline and keep it.
+const withStoredHistories = (workspace: WorkspaceJson): WorkspaceJson => {
+  if (!Array.isArray(workspace.projects)) return workspace;
+  let stored: StoredHistories | null = null;
+  try {
+    stored = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? 'null');
+  } catch (err) {
+    console.error('Failed to restore undo history', err);
+  }
+  // Histories are written alongside the workspace, so a version mismatch means they're stale
+  if (!stored?.histories || stored.schemaVersion !== workspace.schemaVersion) return workspace;
+  const histories = stored.histories;
+  return {
+    ...workspace,
+    projects: workspace.projects.map((p: Partial<SavedProject>) =>
+      p.history || !p.id || !histories[p.id] ? p : { ...p, history: histories[p.id] })
+  };
+};
+
+// Drops the oldest undo steps, then the furthest redo steps, from the largest
+// histories until all of them together fit in `budget` characters of JSON
+export const trimHistories = (histories: Record<string, ProjectHistory>, budget: number): Record<string, ProjectHistory> => {
+  const sizeOf = (steps: HistoryStep[]) => steps.map(step => JSON.stringify(step).length);
+  const entries = Object.entries(histories).map(([id, history]) => ({
+    id,
+    past: [...history.past],
+    future: [...history.future],
+    pastSizes: sizeOf(history.past),
+    futureSizes: sizeOf(history.future)
+  }));
+  const size = (e: typeof entries[number]) => [...e.pastSizes, ...e.futureSizes].reduce((sum, n) => sum + n, 0);
+  let total = entries.reduce((sum, e) => sum + size(e), 0);
+  while (total > budget) {
+    const largest = entries.reduce((a, b) => size(b) > size(a) ? b : a);
+    if (largest.past.length > 0) {
+      largest.past.shift();
+      total -= largest.pastSizes.shift()!;
+    } else if (largest.future.length > 0) {
+      largest.future.shift();
+      total -= largest.futureSizes.shift()!;
+    } else {
+      break;
+    }
+  }
+  return Object.fromEntries(entries.map(e => [e.id, { past: e.past, future: e.future }]));
+};
+
+const saveHistories = (histories: Record<string, ProjectHistory>) => {
+  // Undo is a convenience: when even the trimmed history won't fit, keep less of it
+  for (let budget = HISTORY_BUDGET; budget >= 10_000; budget /= 4) {
+    try {
+      const stored: StoredHistories = { schemaVersion: SCHEMA_VERSION, histories: trimHistories(histories, budget) };
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(stored));
+      return;
+    } catch (err) {
+      console.error('Failed to save undo history', err);
+    }
+  }
+  localStorage.removeItem(HISTORY_KEY);
+};
+
+// False when the browser refused to store the projects, usually because
+// storage is full; the caller has to tell the user their edits aren't saved
+export const saveWorkspace = (workspace: Workspace): boolean => {
+  const histories: Record<string, ProjectHistory> = {};
+  const projects = workspace.projects.map(p => {
+    const project = { ...p };
+    if (project.history) histories[project.id] = project.history;
+    delete project.history;
+    return project;
+  });
+  const json = JSON.stringify({ ...workspace, projects });
+  try {
+    localStorage.setItem(STORAGE_KEY, json);
+  } catch {
+    // Make room by giving up the undo history before giving up the projects
+    try {
+      localStorage.removeItem(HISTORY_KEY);
+      localStorage.setItem(STORAGE_KEY, json);
+    } catch (err) {
+      console.error('Failed to save projects', err);
+      return false;
+    }
+  }
+  saveHistories(histories);
+  return true;
+};
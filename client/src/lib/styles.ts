@@ -0,0 +1,7 @@
+// Reusable Styles - All rounded classes replaced with rounded-none
+export const inputClass = "bg-neutral-900 border border-emerald-800 text-emerald-100 rounded-none focus:ring-1 focus:ring-emerald-500 placeholder:text-emerald-700/50";
+export const labelClass = "text-emerald-500 font-semibold tracking-wide text-sm mb-1 block";
+export const cardBorder = "border border-emerald-800"; // 1px stroke
+export const selectClass = `w-full p-2 bg-neutral-900 ${cardBorder} text-emerald-100 rounded-none focus:outline-none focus:ring-1 focus:ring-emerald-500`;
+export const iconButtonClass = "bg-emerald-900/30 hover:bg-emerald-800/50 border border-emerald-900 text-emerald-400 rounded-none";
+export const deleteButtonClass = "bg-red-900/20 hover:bg-red-900/40 border border-red-900/50 text-red-400 rounded-none";
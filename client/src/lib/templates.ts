@@ -0,0 +1,276 @@
+import type { ProjectData, TemplateKey } from './types';
+
+// ============================================================================
+// CODE TEMPLATES
+// ============================================================================
+// Each template renders one item. Syntax is deliberately small:
+//   {{name}}                         substitute a variable
+//   {{#if name}} … {{else}} … {{/if}}  keep a block when the variable is set
+// A variable counts as unset when it is empty or "false".
+
+export interface TemplateError {
+  line: number;
+  message: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface CompiledTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateError[];
+}
+
+export interface TemplateDefinition {
+  label: string;
+  // Variable name -> what it holds, shown next to the editor
+  variables: Record<string, string>;
+  // Values used by the preview when the project has nothing to render
+  sample: Record<string, string>;
+  template: string;
+}
+
+const TAG_RE = /\{\{([^{}]*)\}\}/g;
+
+const lineAt = (source: string, offset: number) => source.slice(0, offset).split('\n').length;
+
+export const compileTemplate = (source: string, variables: Iterable<string>): CompiledTemplate => {
+  const known = new Set(variables);
+  const errors: TemplateError[] = [];
+  const root: TemplateNode[] = [];
+  // Open {{#if}} blocks; nodes are appended to the innermost one
+  const open: Array<{ node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; line: number }> = [];
+  const target = () => {
+    const block = open[open.length - 1];
+    return block ? (block.inElse ? block.node.otherwise : block.node.then) : root;
+  };
+  const pushText = (value: string) => {
+    if (value.includes('{{') || value.includes('}}')) {
+      const at = value.includes('{{') ? value.indexOf('{{') : value.indexOf('}}');
+      errors.push({ line: lineAt(source, cursor + at), message: 'Unbalanced braces; tags look like {{name}}' });
+    }
+    if (value) target().push({ type: 'text', value });
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_RE)) {
+    const offset = match.index ?? 0;
+    pushText(source.slice(cursor, offset));
+    cursor = offset + match[0].length;
+    const line = lineAt(source, offset);
+    const tag = match[1].trim();
+    const checkName = (name: string) => {
+      if (!known.has(name)) errors.push({ line, message: `Unknown variable "${name}"` });
+    };
+
+    const ifMatch = tag.match(/^#if\s+(\w+)$/);
+    if (ifMatch) {
+      checkName(ifMatch[1]);
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name: ifMatch[1], then: [], otherwise: [] };
+      target().push(node);
+      open.push({ node, inElse: false, line });
+    } else if (tag === 'else') {
+      const block = open[open.length - 1];
+      if (!block || block.inElse) errors.push({ line, message: '{{else}} without a matching {{#if}}' });
+      else block.inElse = true;
+    } else if (tag === '/if') {
+      if (!open.pop()) errors.push({ line, message: '{{/if}} without a matching {{#if}}' });
+    } else if (/^\w+$/.test(tag)) {
+      checkName(tag);
+      target().push({ type: 'var', name: tag });
+    } else {
+      errors.push({ line, message: `Unrecognised tag "{{${tag}}}"` });
+    }
+  }
+  pushText(source.slice(cursor));
+  open.forEach(block => errors.push({ line: block.line, message: `{{#if ${block.node.name}}} is never closed` }));
+
+  return { nodes: root, errors };
+};
+
+const renderNodes = (nodes: TemplateNode[], values: Record<string, string>): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'var') return values[node.name] ?? '';
+    const value = values[node.name];
+    return renderNodes(value && value !== 'false' ? node.then : node.otherwise, values);
+  }).join('');
+
+export const renderTemplate = (template: CompiledTemplate, values: Record<string, string>): string =>
+  renderNodes(template.nodes, values);
+
+// ============================================================================
+// BUILT-IN TEMPLATES
+// ============================================================================
+
+export const TEMPLATE_DEFS: Record<TemplateKey, TemplateDefinition> = {
+  infoModule: {
+    label: 'Info Module',
+    variables: {
+      moduleName: 'Info module name',
+      name: 'Name as a quoted Verse string',
+      description: 'Description as a quoted Verse string',
+      shortDescription: 'Short description as a quoted Verse string'
+    },
+    sample: { moduleName: 'SpeedBoostInfo', name: '"Speed Boost"', description: '"Run faster for 60 seconds."', shortDescription: '"Go fast"' },
+    template: [
+      '    {{moduleName}}<public> := module:',
+      '',
+      '        Name<public><localizes>:message = {{name}}',
+      '',
+      '        Description<public><localizes>:message =',
+      '            {{description}}',
+      '',
+      '        ShortDescription<public><localizes>:message =',
+      '            {{shortDescription}}',
+      '',
+      ''
+    ].join('\n')
+  },
+  entitlementClass: {
+    label: 'Entitlement Class',
+    variables: {
+      className: 'Class name',
+      parent: 'Parent class',
+      info: 'Path to the info module, e.g. EntitlementInfo.SpeedInfo',
+      icon: 'Icon texture',
+      consequentialToGameplay: 'true or false',
+      maxCount: 'Maximum count a player can own',
+      consumable: 'true or false',
+      paidRandomItem: 'true or false',
+      paidArea: 'true or false'
+    },
+    sample: {
+      className: 'speed_boost', parent: 'island_entitlement', info: 'EntitlementInfo.SpeedBoostInfo', icon: 'SpeedIcon',
+      consequentialToGameplay: 'true', maxCount: '1', consumable: 'false', paidRandomItem: 'false', paidArea: 'false'
+    },
+    template: [
+      '    {{className}}<public> :=',
+      '        class<concrete>({{parent}}):',
+      '',
+      '            var Name<override>:message = {{info}}.Name',
+      '            var Description<override>:message = {{info}}.Description',
+      '            var ShortDescription<override>:message = {{info}}.ShortDescription',
+      '            var Icon<override>:texture = {{icon}}',
+      '            ConsequentialToGameplay<override>:logic = {{consequentialToGameplay}}',
+      '            MaxCount<override>:int = {{maxCount}}',
+      '            Consumable<override>:logic = {{consumable}}',
+      '            PaidRandomItem<override>:logic = {{paidRandomItem}}',
+      '            PaidArea<override>:logic = {{paidArea}}',
+      '',
+      ''
+    ].join('\n')
+  },
+  offerClass: {
+    label: 'Offer Class',
+    variables: {
+      className: 'Class name',
+      info: 'Path to the info module',
+      icon: 'Icon texture',
+      entitlementType: 'Path to the entitlement class',
+      price: 'V-Bucks price with one decimal, e.g. 100.0'
+    },
+    sample: { className: 'SpeedBoostOffer', info: 'EntitlementInfo.SpeedBoostInfo', icon: 'SpeedIcon', entitlementType: 'Entitlements.speed_boost', price: '100.0' },
+    template: [
+      '    {{className}}<public> := class(entitlement_offer):',
+      '',
+      '        var Name<override>:message             = {{info}}.Name',
+      '        var Description<override>:message      = {{info}}.Description',
+      '        var ShortDescription<override>:message = {{info}}.ShortDescription',
+      '        var Icon<override>:texture             = {{icon}}',
+      '        EntitlementType<override>:concrete_subtype(entitlement) = {{entitlementType}}',
+      '        Price<override>:price_dimension = MakePriceVBucks({{price}})',
+      '',
+      ''
+    ].join('\n')
+  },
+  bundleClass: {
+    label: 'Bundle Class',
+    variables: {
+      className: 'Class name',
+      info: 'Path to the info module',
+      icon: 'Icon texture',
+      offers: 'Comma separated (offer, quantity) tuples, nested bundles included',
+      entitlements: 'Comma separated (entitlement, quantity) tuples; empty when none',
+      price: 'V-Bucks price with one decimal'
+    },
+    sample: {
+      className: 'StarterBundle', info: 'EntitlementInfo.StarterInfo', icon: 'StarterIcon',
+      offers: '(Offers.SpeedBoostOffer, 2)', entitlements: '(Entitlements.gem, 100)', price: '250.0'
+    },
+    template: [
+      '    {{className}}<public> := class(bundle_offer):',
+      '',
+      '        var Name<override>:message = {{info}}.Name',
+      '        var Description<override>:message = {{info}}.Description',
+      '        var ShortDescription<override>:message = {{info}}.ShortDescription',
+      '        var Icon<override>:texture = {{icon}}',
+      '        Offers<override>:[]tuple(offer, int) = array{{{offers}}}',
+      '{{#if entitlements}}        Entitlements<override>:[]tuple(concrete_subtype(entitlement), int) = array{{{entitlements}}}',
+      '{{/if}}' +
+      '        Price<override>:price_dimension = MakePriceVBucks({{price}})',
+      '',
+      ''
+    ].join('\n')
+  },
+  buySnippet: {
+    label: 'Buy Snippet',
+    variables: {
+      className: 'Offer or bundle class name',
+      path: 'Qualified path to the class',
+      price: 'V-Bucks price',
+      bundle: '"true" for bundles, empty for offers',
+      itemCount: 'Number of items a bundle grants, nested bundles included'
+    },
+    sample: { className: 'SpeedBoostOffer', path: 'Offers.SpeedBoostOffer', price: '100', bundle: '', itemCount: '0' },
+    template: [
+      '# Purchase {{className}} ({{#if bundle}}{{itemCount}} items, {{/if}}{{price}} V-Bucks). only works in a <suspends> function.',
+      '    Result := BuyOffer(Player, {{path}})',
+      '    if (Result?):',
+      '        # Do nothing it should respond in the purchase subscription',
+      '    else:',
+      '        Print("Failed to buy the offer")',
+      '',
+      ''
+    ].join('\n')
+  },
+  consumeSnippet: {
+    label: 'Consume Snippet',
+    variables: {
+      className: 'Entitlement class name',
+      path: 'Qualified path to the entitlement class',
+      maxCount: 'MaxCount of the entitlement',
+      quantity: 'Quantity chosen in the output panel'
+    },
+    sample: { className: 'speed_boost', path: 'Entitlements.speed_boost', maxCount: '10', quantity: '1' },
+    template: [
+      '# Consume {{className}} (MaxCount: {{maxCount}}, Quantity: {{quantity}})',
+      '    ConsRes := ConsumeEntitlement(Player, {{path}}, ?Count := {{quantity}})',
+      '    if (ConsRes?):',
+      '        Print("Successfully consumed entitlement.")',
+      '        # Add custom logic here (e.g., HUD messages, stat updates)',
+      '    else:',
+      '        Print("Failed to consume entitlement.")',
+      '',
+      ''
+    ].join('\n')
+  }
+};
+
+export const TEMPLATE_KEYS = Object.keys(TEMPLATE_DEFS) as TemplateKey[];
+
+export const compileFor = (key: TemplateKey, source: string) =>
+  compileTemplate(source, Object.keys(TEMPLATE_DEFS[key].variables));
+
+// The project's override when it compiles cleanly, the built-in otherwise.
+// Broken overrides are reported by validateProject instead of breaking output.
+export const templateFor = (data: ProjectData, key: TemplateKey): CompiledTemplate => {
+  const override = data.templates[key];
+  if (override !== undefined) {
+    const compiled = compileFor(key, override);
+    if (compiled.errors.length === 0) return compiled;
+  }
+  return compileFor(key, TEMPLATE_DEFS[key].template);
+};
@@ -0,0 +1,95 @@
+import type { ProjectData, TextureAsset } from './types';
+
+// ============================================================================
+// TEXTURE REGISTRY
+// ============================================================================
+
+const MODULE_RE = /^(\s*)([A-Za-z_]\w*)\s*(?:<[^>]*>\s*)*:=\s*module\s*:/;
+const TEXTURE_RE = /^(\s*)([A-Za-z_]\w*)\s*(?:<[^>]*>\s*)*:\s*texture\s*=/;
+const PATH_RE = /^[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*$/;
+
+// Texture paths declared in an Assets.digest.verse, e.g. "Textures.T_Speed".
+// Anything else is read as a plain list with one path per line.
+export const parseTextureList = (source: string): string[] => {
+  const lines = source.split(/\r?\n/);
+  const modules: Array<{ indent: number; name: string }> = [];
+  const paths: string[] = [];
+
+  lines.forEach(line => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const indent = line.match(/^\s*/)![0].length;
+    while (modules.length > 0 && modules[modules.length - 1].indent >= indent) modules.pop();
+    const module = line.match(MODULE_RE);
+    if (module) {
+      modules.push({ indent, name: module[2] });
+      return;
+    }
+    const texture = line.match(TEXTURE_RE);
+    if (texture) paths.push([...modules.map(m => m.name), texture[2]].join('.'));
+  });
+  if (paths.length > 0) return paths;
+
+  return lines.map(line => line.trim()).filter(line => PATH_RE.test(line));
+};
+
+// Adds paths the registry doesn't have yet
+export const addTextures = (data: ProjectData, paths: string[]): { data: ProjectData; added: number } => {
+  const known = new Set(data.textures.map(t => t.path));
+  const fresh: TextureAsset[] = [];
+  paths.forEach(path => {
+    if (known.has(path)) return;
+    known.add(path);
+    fresh.push({ path });
+  });
+  return { data: { ...data, textures: [...data.textures, ...fresh] }, added: fresh.length };
+};
+
+export const removeTexture = (data: ProjectData, path: string): ProjectData =>
+  ({ ...data, textures: data.textures.filter(t => t.path !== path) });
+
+export const textureUsage = (data: ProjectData, path: string): number =>
+  [...data.entitlements, ...data.offers, ...data.bundles].filter(item => item.icon === path).length;
+
+// ============================================================================
+// PREVIEW CACHE
+// ============================================================================
+// Thumbnails are display only and comparatively large, so they live in their
+// own browser storage keyed by texture path rather than in project data,
+// history or exported files.
+
+// Data URL thumbnail per texture path
+export type TexturePreviews = Record<string, string>;
+
+const PREVIEW_KEY = 'verse-transactions:texture-previews';
+
+export const loadTexturePreviews = (): TexturePreviews => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREVIEW_KEY) ?? 'null');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+// False when the browser refused the write, usually because storage is full
+export const saveTexturePreviews = (previews: TexturePreviews): boolean => {
+  try {
+    localStorage.setItem(PREVIEW_KEY, JSON.stringify(previews));
+    return true;
+  } catch (err) {
+    console.error('Failed to save texture previews', err);
+    return false;
+  }
+};
+
+export const setTexturePreview = (previews: TexturePreviews, path: string, preview: string | undefined): TexturePreviews => {
+  const next = { ...previews };
+  if (preview) next[path] = preview;
+  else delete next[path];
+  return next;
+};
+
+export const searchTextures = (textures: TextureAsset[], query: string): TextureAsset[] => {
+  const needle = query.trim().toLowerCase();
+  return needle ? textures.filter(t => t.path.toLowerCase().includes(needle)) : textures;
+};
@@ -0,0 +1,130 @@
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface LocalizedMessage {
+  key: string;
+  // Default-locale text; this is what ends up in the generated Verse
+  text: string;
+  // Every other locale's text, by locale code
+  translations?: Record<string, string>;
+}
+
+export interface LocalizationSettings {
+  defaultLocale: string;
+  // All locales the project ships, including the default
+  locales: string[];
+}
+
+export interface EntitlementInfoModule {
+  moduleName: string;
+  name: LocalizedMessage;
+  description: LocalizedMessage;
+  shortDescription: LocalizedMessage;
+  // Free-form labels for sorting out the editor lists; never generated
+  tags?: string[];
+}
+
+// Currency is now only 'vbucks'
+export interface PriceDimension {
+  type: 'vbucks';
+  amount: number;
+  // Name of the price tier this follows, if any
+  tier?: string;
+}
+
+export interface PriceTier {
+  name: string;
+  amount: number;
+}
+
+// A texture asset the island declares, as referenced from Icon fields
+export interface TextureAsset {
+  // Verse path, e.g. "Textures.T_SpeedBoost"
+  path: string;
+}
+
+// Abstract entitlement class the user defines; parent is a built-in parent or
+// another custom class
+export interface CustomParentClass {
+  name: string;
+  parent: string;
+}
+
+export interface EntitlementDefinition {
+  className: string;
+  parentClass: 'island_entitlement' | 'cosmetic_entitlement' | 'custom';
+  customParent?: string;
+  infoModule: string;
+  icon: string;
+  consequentialToGameplay: boolean;
+  maxCount: number;
+  consumable: boolean;
+  paidRandomItem: boolean;
+  paidArea: boolean;
+  tags?: string[];
+}
+
+// Offer fields that can follow the offer's entitlement
+export type LinkedOfferField = 'infoModule' | 'icon';
+
+export interface EntitlementOffer {
+  className: string;
+  infoModule: string;
+  icon: string;
+  entitlementType: string;
+  price: PriceDimension;
+  // Linked offers copy infoModule and icon from their entitlement, except
+  // for the fields listed in overrides
+  linked?: boolean;
+  overrides?: LinkedOfferField[];
+  tags?: string[];
+}
+
+// What a bundle entry points at; entries saved without a kind are offers
+export type BundleEntryKind = 'offer' | 'bundle' | 'entitlement';
+
+export interface BundleEntry {
+  offerRef: string;
+  quantity: number;
+  kind?: BundleEntryKind;
+}
+
+export interface BundleOffer {
+  className: string;
+  infoModule: string;
+  icon: string;
+  offers: BundleEntry[];
+  price: PriceDimension;
+  tags?: string[];
+}
+
+// How generated Verse is named and labelled
+export interface CodegenSettings {
+  // Dotted module path the generated modules live under, empty for top level
+  namespace: string;
+  infoModule: string;
+  entitlementsModule: string;
+  offersModule: string;
+  bundlesModule: string;
+  // Plain text, emitted as Verse # comment lines at the top of each file
+  header: string;
+}
+
+// Sections of generated code that can be overridden with a user template
+export type TemplateKey = 'infoModule' | 'entitlementClass' | 'offerClass' | 'bundleClass' | 'buySnippet' | 'consumeSnippet';
+
+export interface ProjectData {
+  entitlementInfos: EntitlementInfoModule[];
+  entitlements: EntitlementDefinition[];
+  offers: EntitlementOffer[];
+  bundles: BundleOffer[];
+  localization: LocalizationSettings;
+  codegen: CodegenSettings;
+  // Only the templates the user changed; the rest use the built-ins
+  templates: Partial<Record<TemplateKey, string>>;
+  priceTiers: PriceTier[];
+  // Known icon textures; empty means icons aren't checked
+  textures: TextureAsset[];
+  parentClasses: CustomParentClass[];
+}
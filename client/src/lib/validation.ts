@@ -0,0 +1,275 @@
+import type { CodegenSettings, EntitlementDefinition, PriceDimension, ProjectData, TemplateKey } from './types';
+import { compileFor } from './templates';
+import { bundleValueWarnings } from './bundleValue';
+import { entryKind, findBundleCycle } from './bundleContents';
+import { findParentCycle, isBuiltinParent } from './parentClasses';
+
+// ============================================================================
+// VALIDATION LOGIC
+// ============================================================================
+
+export const validateEntitlement = (ent: EntitlementDefinition): string[] => {
+  const errors: string[] = [];
+  if (!ent.className || !/^[a-z_][a-z0-9_]*$/.test(ent.className)) {
+    errors.push('Class name must be lowercase snake_case');
+  }
+  // Also catches NaN from a cleared input, which JSON would save as null
+  if (!Number.isInteger(ent.maxCount) || ent.maxCount < 1) {
+    errors.push('MaxCount must be a whole number of at least 1');
+  }
+  if (!ent.consumable && ent.maxCount > 1) {
+    errors.push('Non-consumable entitlements should have MaxCount = 1');
+  }
+  if (ent.paidRandomItem && !ent.consumable) {
+    errors.push('Paid random items must be consumable');
+  }
+  if (ent.paidRandomItem && ent.paidArea) {
+    errors.push('An entitlement cannot be both a paid random item and a paid area');
+  }
+  return errors;
+};
+
+// New price validation function
+export const validatePrice = (amount: number): string[] => {
+  if (!Number.isFinite(amount)) return ['Price must be a number'];
+  const errors: string[] = [];
+  if (amount < 50 || amount > 5000) {
+    errors.push('Price must be between 50 and 5000 V-Bucks');
+  }
+  if (amount % 50 !== 0) {
+    errors.push('Price must be a multiple of 50');
+  }
+  return errors;
+};
+
+// Store text length limits; keep in sync with UEFN's in-island transaction rules
+export const TEXT_LIMITS = {
+  name: 40,
+  description: 280,
+  shortDescription: 80
+} as const;
+
+export type StoreTextField = keyof typeof TEXT_LIMITS;
+
+const TEXT_LABELS: Record<StoreTextField, string> = {
+  name: 'Name',
+  description: 'Description',
+  shortDescription: 'Short description'
+};
+
+export const validateStoreText = (field: StoreTextField, text: string): string[] => {
+  const errors: string[] = [];
+  if (text.length > TEXT_LIMITS[field]) {
+    errors.push(`${TEXT_LABELS[field]} is ${text.length} characters, the store limit is ${TEXT_LIMITS[field]}`);
+  }
+  if (field !== 'description' && /[\r\n]/.test(text)) {
+    errors.push(`${TEXT_LABELS[field]} should be a single line`);
+  }
+  return errors;
+};
+
+// ============================================================================
+// CODEGEN SETTINGS
+// ============================================================================
+
+const IDENTIFIER_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MODULE_FIELDS = ['infoModule', 'entitlementsModule', 'offersModule', 'bundlesModule'] as const;
+
+export type CodegenField = 'namespace' | typeof MODULE_FIELDS[number];
+
+// Every generated module must be a distinct identifier or the references
+// between them resolve to the wrong thing
+export const validateCodegen = (settings: CodegenSettings): Partial<Record<CodegenField, string>> => {
+  const errors: Partial<Record<CodegenField, string>> = {};
+  const seen = new Set<string>();
+  MODULE_FIELDS.forEach(field => {
+    const name = settings[field];
+    if (!IDENTIFIER_RE.test(name)) errors[field] = 'Must be a Verse identifier (letters, digits and underscores)';
+    else if (seen.has(name)) errors[field] = `Module name "${name}" is used twice`;
+    seen.add(name);
+  });
+  if (settings.namespace && !settings.namespace.split('.').every(segment => IDENTIFIER_RE.test(segment))) {
+    errors.namespace = 'Use identifiers separated by dots, e.g. Shop.Commerce';
+  }
+  return errors;
+};
+
+// ============================================================================
+// PROJECT-WIDE INTEGRITY
+// ============================================================================
+
+// The item lists a project is made of, as opposed to project-wide settings
+export type ProjectSection = 'entitlementInfos' | 'entitlements' | 'offers' | 'bundles';
+
+export interface Diagnostic {
+  severity: 'error' | 'warning';
+  section: ProjectSection | 'codegen' | 'pricing' | 'classes';
+  index: number;
+  // Human readable location, e.g. "offers/speed_offer.entitlementType"
+  path: string;
+  message: string;
+}
+
+// Collects per-item rule violations plus references that no longer resolve
+export const validateProject = (data: ProjectData): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  const report = (severity: Diagnostic['severity'], section: ProjectSection, index: number, name: string, field: string | null, message: string) => {
+    diagnostics.push({ severity, section, index, path: `${section}/${name || `#${index + 1}`}${field ? `.${field}` : ''}`, message });
+  };
+
+  const infoNames = new Set(data.entitlementInfos.map(i => i.moduleName));
+  const entitlementNames = new Set(data.entitlements.map(e => e.className));
+  const offerNames = new Set(data.offers.map(o => o.className));
+  const bundleNames = new Set(data.bundles.map(b => b.className));
+
+  // Duplicates inside one list collide in the generated module; across lists
+  // they only make selection and search ambiguous.
+  const checkDuplicates = (section: ProjectSection, names: string[]) => {
+    const seen = new Set<string>();
+    names.forEach((name, idx) => {
+      if (seen.has(name)) report('error', section, idx, name, null, `Duplicate name "${name}"`);
+      seen.add(name);
+    });
+  };
+  checkDuplicates('entitlementInfos', data.entitlementInfos.map(i => i.moduleName));
+  checkDuplicates('entitlements', data.entitlements.map(e => e.className));
+  checkDuplicates('offers', data.offers.map(o => o.className));
+  checkDuplicates('bundles', data.bundles.map(b => b.className));
+
+  const classOwners = new Map<string, ProjectSection[]>();
+  (['entitlements', 'offers', 'bundles'] as const).forEach(section => {
+    data[section].forEach(item => {
+      const owners = classOwners.get(item.className) ?? [];
+      if (!owners.includes(section)) owners.push(section);
+      classOwners.set(item.className, owners);
+    });
+  });
+  (['entitlements', 'offers', 'bundles'] as const).forEach(section => {
+    data[section].forEach((item, idx) => {
+      const others = (classOwners.get(item.className) ?? []).filter(s => s !== section);
+      if (others.length > 0) {
+        report('warning', section, idx, item.className, null, `Class name is also used in ${others.join(', ')}`);
+      }
+    });
+  });
+
+  // Icons are only checked once the project has a texture registry
+  if (data.textures.length > 0) {
+    const textures = new Set(data.textures.map(t => t.path));
+    (['entitlements', 'offers', 'bundles'] as const).forEach(section => {
+      data[section].forEach((item, idx) => {
+        if (!textures.has(item.icon)) {
+          report('error', section, idx, item.className, 'icon', `Icon "${item.icon}" is not in the texture registry`);
+        }
+      });
+    });
+  }
+
+  const customClassNames = new Set<string>();
+  data.parentClasses.forEach((cls, idx) => {
+    const path = `classes/${cls.name || `#${idx + 1}`}`;
+    const error = (message: string) => diagnostics.push({ severity: 'error', section: 'classes', index: idx, path, message });
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(cls.name)) error('Class name must be a Verse identifier');
+    else if (isBuiltinParent(cls.name)) error(`"${cls.name}" is a built-in parent class`);
+    else if (customClassNames.has(cls.name)) error(`Duplicate class "${cls.name}"`);
+    else if (entitlementNames.has(cls.name)) error('Class name is also used by an entitlement');
+    customClassNames.add(cls.name);
+  });
+  data.parentClasses.forEach((cls, idx) => {
+    const path = `classes/${cls.name || `#${idx + 1}`}`;
+    const error = (message: string) => diagnostics.push({ severity: 'error', section: 'classes', index: idx, path, message });
+    const cycle = findParentCycle(data.parentClasses, cls.name);
+    if (cycle) error(`Class extends itself: ${cycle.join(' → ')}`);
+    else if (!isBuiltinParent(cls.parent) && !customClassNames.has(cls.parent)) error(`Parent class "${cls.parent}" does not exist`);
+  });
+
+  const storeFields: StoreTextField[] = ['name', 'description', 'shortDescription'];
+  data.entitlementInfos.forEach((info, idx) => {
+    storeFields.forEach(field => validateStoreText(field, info[field].text)
+      .forEach(err => report('warning', 'entitlementInfos', idx, info.moduleName, field, err)));
+  });
+
+  data.entitlements.forEach((ent, idx) => {
+    validateEntitlement(ent).forEach(err => report('error', 'entitlements', idx, ent.className, null, err));
+    if (!infoNames.has(ent.infoModule)) {
+      report('error', 'entitlements', idx, ent.className, 'infoModule', `Info module "${ent.infoModule}" does not exist`);
+    }
+    if (ent.parentClass === 'custom' && !ent.customParent?.trim()) {
+      report('error', 'entitlements', idx, ent.className, 'customParent', 'Custom parent class is empty');
+    } else if (ent.parentClass === 'custom' && !customClassNames.has(ent.customParent!)) {
+      report('warning', 'entitlements', idx, ent.className, 'customParent',
+        `Custom parent "${ent.customParent}" is not in the class hierarchy; it must be declared elsewhere`);
+    }
+  });
+
+  const tiers = new Map(data.priceTiers.map(t => [t.name, t.amount]));
+  const checkTier = (section: ProjectSection, idx: number, name: string, price: PriceDimension) => {
+    if (price.tier === undefined) return;
+    if (!tiers.has(price.tier)) {
+      report('error', section, idx, name, 'price', `Price tier "${price.tier}" does not exist`);
+    } else if (tiers.get(price.tier) !== price.amount) {
+      report('warning', section, idx, name, 'price', `Price no longer matches tier "${price.tier}"`);
+    }
+  };
+
+  data.offers.forEach((offer, idx) => {
+    validatePrice(offer.price.amount).forEach(err => report('error', 'offers', idx, offer.className, 'price', err));
+    checkTier('offers', idx, offer.className, offer.price);
+    if (!infoNames.has(offer.infoModule)) {
+      report('error', 'offers', idx, offer.className, 'infoModule', `Info module "${offer.infoModule}" does not exist`);
+    }
+    if (!entitlementNames.has(offer.entitlementType)) {
+      report('error', 'offers', idx, offer.className, 'entitlementType', `Entitlement "${offer.entitlementType}" does not exist`);
+    }
+  });
+
+  data.bundles.forEach((bundle, idx) => {
+    validatePrice(bundle.price.amount).forEach(err => report('error', 'bundles', idx, bundle.className, 'price', err));
+    checkTier('bundles', idx, bundle.className, bundle.price);
+    if (!infoNames.has(bundle.infoModule)) {
+      report('error', 'bundles', idx, bundle.className, 'infoModule', `Info module "${bundle.infoModule}" does not exist`);
+    }
+    if (bundle.offers.length === 0) {
+      report('warning', 'bundles', idx, bundle.className, 'offers', 'Bundle contains no offers');
+    }
+    bundleValueWarnings(data, bundle).forEach(warning => report('warning', 'bundles', idx, bundle.className, null, warning));
+    bundle.offers.forEach(entry => {
+      const kind = entryKind(entry);
+      const known = kind === 'offer' ? offerNames : kind === 'bundle' ? bundleNames : entitlementNames;
+      if (!known.has(entry.offerRef)) {
+        const label = kind === 'offer' ? 'Offer' : kind === 'bundle' ? 'Bundle' : 'Entitlement';
+        report('error', 'bundles', idx, bundle.className, 'offers', `${label} "${entry.offerRef}" does not exist`);
+      }
+    });
+    const cycle = findBundleCycle(data, bundle.className);
+    if (cycle) {
+      report('error', 'bundles', idx, bundle.className, 'offers', `Bundle contains itself: ${cycle.join(' → ')}`);
+    }
+  });
+
+  Object.entries(validateCodegen(data.codegen)).forEach(([field, message]) => {
+    diagnostics.push({ severity: 'error', section: 'codegen', index: 0, path: `codegen.${field}`, message });
+  });
+
+  const tierNames = new Set<string>();
+  data.priceTiers.forEach((tier, idx) => {
+    const path = `pricing/${tier.name || `#${idx + 1}`}`;
+    if (!tier.name.trim()) diagnostics.push({ severity: 'error', section: 'pricing', index: idx, path, message: 'Tier name is empty' });
+    else if (tierNames.has(tier.name)) diagnostics.push({ severity: 'error', section: 'pricing', index: idx, path, message: `Duplicate tier "${tier.name}"` });
+    tierNames.add(tier.name);
+    validatePrice(tier.amount).forEach(message => diagnostics.push({ severity: 'error', section: 'pricing', index: idx, path, message }));
+  });
+
+  // Broken templates fall back to the built-ins, so output is still usable;
+  // warn so the user knows their override isn't being applied
+  (Object.entries(data.templates) as Array<[TemplateKey, string]>).forEach(([key, source]) => {
+    compileFor(key, source).errors.forEach(err => {
+      diagnostics.push({
+        severity: 'warning', section: 'codegen', index: 0, path: `templates.${key}:${err.line}`,
+        message: `${err.message}; using the built-in template`
+      });
+    });
+  });
+
+  return diagnostics;
+};
@@ -0,0 +1,162 @@
+import type { BundleEntry, CodegenSettings, ProjectData } from './types';
+import { encodeVerseString } from './verseString';
+import { renderTemplate, templateFor } from './templates';
+import { entryKind } from './bundleContents';
+import { builtinRoot, entitlementParent, orderParentClasses } from './parentClasses';
+
+// ============================================================================
+// VERSE MODULE GENERATION
+// ============================================================================
+
+export interface VerseFile {
+  path: string;
+  content: string;
+}
+
+type ModuleKey = 'infoModule' | 'entitlementsModule' | 'offersModule' | 'bundlesModule';
+
+// How code outside the generated file refers to a module, e.g. "Shop.Offers"
+export const modulePath = (settings: CodegenSettings, module: ModuleKey): string =>
+  [settings.namespace, settings[module]].filter(Boolean).join('.');
+
+export const headerComment = (settings: CodegenSettings): string => {
+  const lines = settings.header.split(/\r?\n/).filter(line => line.trim());
+  return lines.length > 0 ? lines.map(line => `# ${line}\n`).join('') + '\n' : '';
+};
+
+const usingLines = (modules: string[]) => modules.map(m => `    using { ${m} }\n`).join('') + '\n';
+
+const indent = (code: string, depth: number) =>
+  code.split('\n').map(line => line ? '    '.repeat(depth) + line : line).join('\n');
+
+// Nests the modules inside one module per namespace segment
+const wrapNamespace = (code: string, namespace: string): string => {
+  const segments = namespace.split('.').filter(Boolean);
+  if (segments.length === 0) return code;
+  const opening = segments.map((segment, depth) => indent(`${segment}<public> := module:\n\n`, depth)).join('');
+  return opening + indent(code, segments.length);
+};
+
+const infoModule = (data: ProjectData): string => {
+  const template = templateFor(data, 'infoModule');
+  let code = `${data.codegen.infoModule}<public> := module:\n\n`;
+  data.entitlementInfos.forEach(info => {
+    code += renderTemplate(template, {
+      moduleName: info.moduleName,
+      name: encodeVerseString(info.name.text),
+      description: encodeVerseString(info.description.text),
+      shortDescription: encodeVerseString(info.shortDescription.text)
+    });
+  });
+  return code;
+};
+
+const entitlementsModule = (data: ProjectData, uses: string[]): string => {
+  const { infoModule: info } = data.codegen;
+  let code = `${data.codegen.entitlementsModule}<public> := module:\n\n`;
+  code += usingLines(uses);
+
+  // Built-in parents first, including those only custom classes extend, then
+  // custom classes after whatever they extend
+  const custom = orderParentClasses(data.parentClasses);
+  const builtins = new Set<string>(data.entitlements.map(e => e.parentClass).filter(p => p !== 'custom'));
+  custom.forEach(cls => {
+    const root = builtinRoot(data.parentClasses, cls.name);
+    if (root) builtins.add(root);
+  });
+  builtins.forEach(parent => {
+    code += `    ${parent}<public> :=\n`;
+    code += `        class<abstract><castable>(entitlement){}\n\n`;
+  });
+  custom.forEach(cls => {
+    code += `    ${cls.name}<public> :=\n`;
+    code += `        class<abstract><castable>(${cls.parent}){}\n\n`;
+  });
+
+  const template = templateFor(data, 'entitlementClass');
+  data.entitlements.forEach(ent => {
+    code += renderTemplate(template, {
+      className: ent.className,
+      parent: entitlementParent(ent),
+      info: `${info}.${ent.infoModule}`,
+      icon: ent.icon,
+      consequentialToGameplay: String(ent.consequentialToGameplay),
+      maxCount: String(ent.maxCount),
+      consumable: String(ent.consumable),
+      paidRandomItem: String(ent.paidRandomItem),
+      paidArea: String(ent.paidArea)
+    });
+  });
+  return code;
+};
+
+const offersModule = (data: ProjectData, uses: string[]): string => {
+  const { infoModule: info, entitlementsModule } = data.codegen;
+  let code = `${data.codegen.offersModule}<public> := module:\n\n`;
+  code += usingLines(uses);
+  const template = templateFor(data, 'offerClass');
+  data.offers.forEach(offer => {
+    code += renderTemplate(template, {
+      className: offer.className,
+      info: `${info}.${offer.infoModule}`,
+      icon: offer.icon,
+      entitlementType: `${entitlementsModule}.${offer.entitlementType}`,
+      // Price is always V-Bucks now
+      price: offer.price.amount.toFixed(1)
+    });
+  });
+  return code;
+};
+
+const bundlesModule = (data: ProjectData, uses: string[]): string => {
+  const { infoModule: info, offersModule, entitlementsModule, bundlesModule } = data.codegen;
+  // Nested bundles are offers too, so they share the Offers array
+  const modules = { offer: offersModule, bundle: bundlesModule, entitlement: entitlementsModule };
+  const tuples = (entries: BundleEntry[]) =>
+    entries.map(o => `(${modules[entryKind(o)]}.${o.offerRef}, ${o.quantity})`).join(', ');
+  let code = `${data.codegen.bundlesModule}<public> := module:\n\n`;
+  code += usingLines(uses);
+  const template = templateFor(data, 'bundleClass');
+  data.bundles.forEach(bundle => {
+    code += renderTemplate(template, {
+      className: bundle.className,
+      info: `${info}.${bundle.infoModule}`,
+      icon: bundle.icon,
+      offers: tuples(bundle.offers.filter(o => entryKind(o) !== 'entitlement')),
+      entitlements: tuples(bundle.offers.filter(o => entryKind(o) === 'entitlement')),
+      // Price is always V-Bucks now
+      price: bundle.price.amount.toFixed(1)
+    });
+  });
+  return code;
+};
+
+export const generateVerseCode = (data: ProjectData): string => {
+  const { infoModule: info } = data.codegen;
+  let code = '';
+  if (data.entitlementInfos.length > 0) code += infoModule(data);
+  if (data.entitlements.length > 0) code += entitlementsModule(data, [info]);
+  if (data.offers.length > 0) code += offersModule(data, [info]);
+  if (data.bundles.length > 0) code += bundlesModule(data, [info]);
+  return headerComment(data.codegen) + wrapNamespace(code, data.codegen.namespace);
+};
+
+// One .verse file per module. Verse treats folders as modules, so the
+// namespace becomes the folder path instead of a wrapping module. Each file
+// declares the modules it reads from so the dependencies are visible at the top.
+export const generateVerseFiles = (data: ProjectData): VerseFile[] => {
+  const settings = data.codegen;
+  const folder = settings.namespace.split('.').filter(Boolean).map(segment => `${segment}/`).join('');
+  const files: VerseFile[] = [];
+  const add = (module: ModuleKey, body: string) =>
+    files.push({ path: `${folder}${settings[module]}.verse`, content: headerComment(settings) + body });
+
+  if (data.entitlementInfos.length > 0) add('infoModule', infoModule(data));
+  if (data.entitlements.length > 0) add('entitlementsModule', entitlementsModule(data, [settings.infoModule]));
+  if (data.offers.length > 0) add('offersModule', offersModule(data, [settings.infoModule, settings.entitlementsModule]));
+  if (data.bundles.length > 0) {
+    const direct = data.bundles.some(b => b.offers.some(o => entryKind(o) === 'entitlement'));
+    add('bundlesModule', bundlesModule(data, [settings.infoModule, settings.offersModule, ...(direct ? [settings.entitlementsModule] : [])]));
+  }
+  return files;
+};
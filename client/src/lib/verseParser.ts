@@ -0,0 +1,383 @@
+import type { BundleOffer, EntitlementDefinition, EntitlementInfoModule, EntitlementOffer, LocalizedMessage, ProjectData } from './types';
+import { emptyProjectData } from './storage';
+import { decodeVerseString } from './verseString';
+import { toPascalCase, uniqueName } from './naming';
+import { isBuiltinParent } from './parentClasses';
+
+// ============================================================================
+// VERSE SOURCE IMPORTER
+// ============================================================================
+// Rebuilds ProjectData from transaction modules shaped like the output of
+// generateVerseCode. It is a line/indentation based reader, not a full Verse
+// parser: anything it doesn't recognise is reported back with its line number.
+// Module names are carried over into the codegen settings; a namespace
+// wrapper around the modules is not understood.
+
+export interface ParseWarning {
+  line: number;
+  message: string;
+}
+
+export interface VerseParseResult {
+  data: ProjectData;
+  warnings: ParseWarning[];
+}
+
+interface Statement {
+  line: number;
+  indent: number;
+  text: string;
+}
+
+type Context =
+  | { kind: 'module'; indent: number; name: string }
+  | { kind: 'info'; indent: number; item: EntitlementInfoModule }
+  | { kind: 'entitlement'; indent: number; item: EntitlementDefinition }
+  | { kind: 'offer'; indent: number; item: EntitlementOffer }
+  | { kind: 'bundle'; indent: number; item: BundleOffer }
+  | { kind: 'skip'; indent: number };
+
+const SPECIFIERS = '(?:<[^>]*>)*';
+const MODULE_RE = new RegExp(`^(\\w+)${SPECIFIERS}\\s*:=\\s*module\\s*:?$`);
+const CLASS_RE = new RegExp(`^(\\w+)${SPECIFIERS}\\s*:=\\s*class(${SPECIFIERS})\\s*\\(([\\w.]+)\\)\\s*(:|\\{\\s*\\})?$`);
+const FIELD_RE = new RegExp(`^(?:var\\s+)?(\\w+)${SPECIFIERS}\\s*:\\s*([^=]+?)\\s*=\\s*([\\s\\S]+)$`);
+
+// Index of the first '#' line comment that isn't inside a string literal
+const commentStart = (line: string): number => {
+  let inString = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inString && ch === '\\') i++;
+    else if (ch === '"') inString = !inString;
+    else if (!inString && ch === '#') return i;
+  }
+  return -1;
+};
+
+const bracketDepth = (text: string): number => {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') inString = true;
+    else if (ch === '(' || ch === '{' || ch === '[') depth++;
+    else if (ch === ')' || ch === '}' || ch === ']') depth--;
+  }
+  return depth;
+};
+
+// Strips comments and joins continuation lines (trailing '=' or open brackets)
+// into one statement that remembers where it started.
+const toStatements = (source: string): Statement[] => {
+  // Block comments can span lines; blank them out but keep the line count
+  const text = source.replace(/<#[\s\S]*?#>/g, match => match.replace(/[^\n]/g, ' '));
+  const statements: Statement[] = [];
+  let pending: Statement | null = null;
+
+  text.split(/\r?\n/).forEach((raw, idx) => {
+    let line = raw;
+    if (line.trimStart().startsWith('//')) return;
+    const hash = commentStart(line);
+    if (hash >= 0) line = line.slice(0, hash);
+    if (!line.trim()) return;
+
+    if (pending) {
+      pending.text += ' ' + line.trim();
+    } else {
+      pending = { line: idx + 1, indent: line.length - line.trimStart().length, text: line.trim() };
+    }
+    if (!pending.text.endsWith('=') && bracketDepth(pending.text) <= 0) {
+      statements.push(pending);
+      pending = null;
+    }
+  });
+  if (pending) statements.push(pending);
+  return statements;
+};
+
+const message = (key: string, text = ''): LocalizedMessage => ({ key, text });
+
+// "EntitlementInfo.Foo.Name" -> "Foo"
+const infoModuleOf = (value: string): string | null => {
+  const match = value.match(/^(?:[\w.]*\.)?(\w+)\.(?:Name|Description|ShortDescription)$/);
+  return match ? match[1] : null;
+};
+
+// "Entitlements.foo" -> "foo"
+const lastSegment = (value: string) => value.trim().split('.').pop() ?? '';
+
+const parseLogic = (value: string): boolean | null =>
+  value === 'true' ? true : value === 'false' ? false : null;
+
+const parsePrice = (value: string): number | null => {
+  const match = value.match(/^MakePriceVBucks\(\s*(-?[\d.]+)\s*\)$/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+const parseBundleEntries = (value: string): BundleOffer['offers'] | null => {
+  const match = value.match(/^array\s*\{([\s\S]*)\}$/);
+  if (!match) return null;
+  const offers: BundleOffer['offers'] = [];
+  const tuples = match[1].matchAll(/\(\s*([\w.]+)\s*,\s*(\d+)\s*\)/g);
+  for (const tuple of tuples) {
+    offers.push({ offerRef: lastSegment(tuple[1]), quantity: parseInt(tuple[2]) });
+  }
+  // Anything left once the tuples are removed means we skipped something
+  if (match[1].replace(/\(\s*[\w.]+\s*,\s*\d+\s*\)/g, '').replace(/[\s,]/g, '')) return null;
+  return offers;
+};
+
+export const parseVerseSource = (source: string): VerseParseResult => {
+  const data = emptyProjectData();
+  const warnings: ParseWarning[] = [];
+  const warn = (line: number, text: string) => warnings.push({ line, message: text });
+  const stack: Context[] = [];
+  // Where each class was declared, for reporting fields it never set
+  const declaredAt = new Map<object, number>();
+  const inlineText = new Map<BundleOffer, Partial<Record<'name' | 'description' | 'shortDescription', string>>>();
+
+  toStatements(source).forEach(stmt => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= stmt.indent) stack.pop();
+    const top = stack[stack.length - 1];
+
+    if (top?.kind === 'skip') return;
+    if (/^using\s*\{.*\}$/.test(stmt.text)) return;
+
+    const moduleMatch = stmt.text.match(MODULE_RE);
+    if (moduleMatch) {
+      // Modules nested inside another module hold the localized info strings
+      if (top?.kind === 'module') {
+        const item: EntitlementInfoModule = {
+          moduleName: moduleMatch[1],
+          name: message('name'),
+          description: message('desc'),
+          shortDescription: message('short')
+        };
+        data.entitlementInfos.push(item);
+        data.codegen.infoModule = top.name;
+        stack.push({ kind: 'info', indent: stmt.indent, item });
+      } else if (!top) {
+        stack.push({ kind: 'module', indent: stmt.indent, name: moduleMatch[1] });
+      } else {
+        warn(stmt.line, `Unexpected module "${moduleMatch[1]}" inside a class`);
+        stack.push({ kind: 'skip', indent: stmt.indent });
+      }
+      return;
+    }
+
+    const classMatch = stmt.text.match(CLASS_RE);
+    if (classMatch) {
+      const [, className, specifiers, parent, body] = classMatch;
+      if (top?.kind !== 'module') {
+        warn(stmt.line, `Class "${className}" is not inside a module`);
+        stack.push({ kind: 'skip', indent: stmt.indent });
+        return;
+      }
+      // Built-in parents are regenerated from the entitlements that use them;
+      // other abstract classes become custom parent classes
+      if (specifiers.includes('<abstract>')) {
+        if (!isBuiltinParent(className)) data.parentClasses.push({ name: className, parent: lastSegment(parent) });
+        stack.push({ kind: 'skip', indent: stmt.indent });
+        return;
+      }
+      if (body && body !== ':') {
+        warn(stmt.line, `Class "${className}" has an empty body and was skipped`);
+        return;
+      }
+
+      const parentName = lastSegment(parent);
+      if (parentName === 'entitlement_offer') {
+        const item: EntitlementOffer = {
+          className, infoModule: '', icon: '', entitlementType: '', price: { type: 'vbucks', amount: 0 }
+        };
+        data.offers.push(item);
+        data.codegen.offersModule = top.name;
+        stack.push({ kind: 'offer', indent: stmt.indent, item });
+        declaredAt.set(item, stmt.line);
+      } else if (parentName === 'bundle_offer') {
+        const item: BundleOffer = {
+          className, infoModule: '', icon: '', offers: [], price: { type: 'vbucks', amount: 0 }
+        };
+        data.bundles.push(item);
+        data.codegen.bundlesModule = top.name;
+        stack.push({ kind: 'bundle', indent: stmt.indent, item });
+        declaredAt.set(item, stmt.line);
+      } else {
+        const builtin = isBuiltinParent(parentName);
+        const item: EntitlementDefinition = {
+          className,
+          parentClass: builtin ? parentName as EntitlementDefinition['parentClass'] : 'custom',
+          ...(builtin ? {} : { customParent: parentName }),
+          infoModule: '',
+          icon: '',
+          consequentialToGameplay: false,
+          maxCount: 1,
+          consumable: false,
+          paidRandomItem: false,
+          paidArea: false
+        };
+        data.entitlements.push(item);
+        data.codegen.entitlementsModule = top.name;
+        stack.push({ kind: 'entitlement', indent: stmt.indent, item });
+        declaredAt.set(item, stmt.line);
+      }
+      return;
+    }
+
+    const fieldMatch = stmt.text.match(FIELD_RE);
+    if (!fieldMatch || !top || top.kind === 'module') {
+      warn(stmt.line, `Could not parse: ${stmt.text.length > 60 ? stmt.text.slice(0, 60) + '…' : stmt.text}`);
+      return;
+    }
+    const [, field, , rawValue] = fieldMatch;
+    const value = rawValue.trim();
+    const invalid = () => warn(stmt.line, `Could not read value of ${field}: ${value}`);
+    const assignInfoModule = (item: { infoModule: string }) => {
+      const infoModule = infoModuleOf(value);
+      if (!infoModule) return invalid();
+      if (item.infoModule && item.infoModule !== infoModule) {
+        warn(stmt.line, `${field} points at ${infoModule} but Name used ${item.infoModule}; keeping ${item.infoModule}`);
+      } else {
+        item.infoModule = infoModule;
+      }
+    };
+
+    if (top.kind === 'info') {
+      const key = field === 'Name' ? 'name' : field === 'Description' ? 'description' : field === 'ShortDescription' ? 'shortDescription' : null;
+      if (!key) return warn(stmt.line, `Unknown field "${field}" in info module ${top.item.moduleName}`);
+      const text = decodeVerseString(value);
+      if (text === null) return invalid();
+      top.item[key] = { ...top.item[key], text };
+      return;
+    }
+
+    if (field === 'Icon') {
+      top.item.icon = value;
+      return;
+    }
+
+    if (top.kind === 'bundle') {
+      switch (field) {
+        case 'Name':
+        case 'Description':
+        case 'ShortDescription': {
+          // Older bundles carry inline strings rather than an info module reference
+          const text = decodeVerseString(value);
+          if (text === null) return assignInfoModule(top.item);
+          const key = field === 'Name' ? 'name' : field === 'Description' ? 'description' : 'shortDescription';
+          inlineText.set(top.item, { ...inlineText.get(top.item), [key]: text });
+          return;
+        }
+        case 'Offers': {
+          const offers = parseBundleEntries(value);
+          if (!offers) return invalid();
+          // Entitlements may come first; keep whichever was already parsed
+          top.item.offers = [...offers, ...top.item.offers.filter(e => e.kind === 'entitlement')];
+          return;
+        }
+        case 'Entitlements': {
+          const entitlements = parseBundleEntries(value);
+          if (!entitlements) return invalid();
+          top.item.offers = [
+            ...top.item.offers.filter(e => e.kind !== 'entitlement'),
+            ...entitlements.map(e => ({ ...e, kind: 'entitlement' as const }))
+          ];
+          return;
+        }
+        case 'Price': {
+          const amount = parsePrice(value);
+          if (amount === null) return invalid();
+          top.item.price = { type: 'vbucks', amount };
+          return;
+        }
+        default:
+          return warn(stmt.line, `Unknown field "${field}" in bundle ${top.item.className}`);
+      }
+    }
+
+    if (field === 'Name' || field === 'Description' || field === 'ShortDescription') {
+      return assignInfoModule(top.item);
+    }
+
+    if (top.kind === 'offer') {
+      if (field === 'EntitlementType') {
+        top.item.entitlementType = lastSegment(value);
+        return;
+      }
+      if (field === 'Price') {
+        const amount = parsePrice(value);
+        if (amount === null) return invalid();
+        top.item.price = { type: 'vbucks', amount };
+        return;
+      }
+      return warn(stmt.line, `Unknown field "${field}" in offer ${top.item.className}`);
+    }
+
+    switch (field) {
+      case 'ConsequentialToGameplay':
+      case 'Consumable':
+      case 'PaidRandomItem':
+      case 'PaidArea': {
+        const logic = parseLogic(value);
+        if (logic === null) return invalid();
+        if (field === 'Consumable') top.item.consumable = logic;
+        else if (field === 'PaidRandomItem') top.item.paidRandomItem = logic;
+        else if (field === 'PaidArea') top.item.paidArea = logic;
+        else top.item.consequentialToGameplay = logic;
+        return;
+      }
+      case 'MaxCount': {
+        if (!/^\d+$/.test(value)) return invalid();
+        top.item.maxCount = parseInt(value);
+        return;
+      }
+    }
+    warn(stmt.line, `Unknown field "${field}" in entitlement ${top.item.className}`);
+  });
+
+  // Give bundles with inline strings an info module of their own
+  inlineText.forEach((text, bundle) => {
+    if (bundle.infoModule) return;
+    const moduleName = uniqueName(`${toPascalCase(bundle.className) || 'Bundle'}BundleInfo`, data.entitlementInfos.map(i => i.moduleName));
+    data.entitlementInfos.push({
+      moduleName,
+      name: message('name', text.name),
+      description: message('desc', text.description),
+      shortDescription: message('short', text.shortDescription)
+    });
+    bundle.infoModule = moduleName;
+  });
+
+  // Offers arrays mix offers and nested bundles; tell them apart by name
+  const offerNames = new Set(data.offers.map(o => o.className));
+  const bundleNames = new Set(data.bundles.map(b => b.className));
+  data.bundles.forEach(bundle => {
+    bundle.offers = bundle.offers.map(entry =>
+      !entry.kind && !offerNames.has(entry.offerRef) && bundleNames.has(entry.offerRef) ? { ...entry, kind: 'bundle' } : entry);
+  });
+
+  const requireField = (item: object, label: string, present: boolean, field: string) => {
+    if (!present) warn(declaredAt.get(item) ?? 0, `${label} has no ${field}`);
+  };
+  data.entitlements.forEach(ent => {
+    requireField(ent, `Entitlement ${ent.className}`, !!ent.infoModule, 'Name/Description info module reference');
+    requireField(ent, `Entitlement ${ent.className}`, !!ent.icon, 'Icon');
+  });
+  data.offers.forEach(offer => {
+    requireField(offer, `Offer ${offer.className}`, !!offer.infoModule, 'Name/Description info module reference');
+    requireField(offer, `Offer ${offer.className}`, !!offer.icon, 'Icon');
+    requireField(offer, `Offer ${offer.className}`, !!offer.entitlementType, 'EntitlementType');
+    requireField(offer, `Offer ${offer.className}`, offer.price.amount > 0, 'Price');
+  });
+  data.bundles.forEach(bundle => {
+    requireField(bundle, `Bundle ${bundle.className}`, !!bundle.infoModule, 'Name/Description');
+    requireField(bundle, `Bundle ${bundle.className}`, !!bundle.icon, 'Icon');
+    requireField(bundle, `Bundle ${bundle.className}`, bundle.price.amount > 0, 'Price');
+  });
+  warnings.sort((a, b) => a.line - b.line);
+
+  return { data, warnings };
+};
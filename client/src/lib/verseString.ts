@@ -0,0 +1,39 @@
+// ============================================================================
+// VERSE STRING LITERALS
+// ============================================================================
+
+// Characters Verse reserves inside string literals and their escapes
+const ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  '"': '\\"',
+  "'": "\\'",
+  '{': '\\{',
+  '}': '\\}',
+  '<': '\\<',
+  '>': '\\>',
+  '&': '\\&',
+  '~': '\\~',
+  '#': '\\#',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t'
+};
+
+// Wraps user text in quotes so it always compiles as a single Verse string.
+// Line breaks become \n, and other control characters are dropped.
+export const encodeVerseString = (text: string): string => {
+  const body = text
+    .replace(/\r\n/g, '\n')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+    .replace(/[\\"'{}<>&~#\n\r\t]/g, ch => ESCAPES[ch]);
+  return `"${body}"`;
+};
+
+export const decodeVerseString = (literal: string): string | null => {
+  const match = literal.trim().match(/^"((?:[^"\\]|\\.)*)"$/);
+  if (!match) return null;
+  return match[1].replace(/\\(.)/g, (_, ch: string) => (
+    ch === 'n' ? '\n' : ch === 't' ? '\t' : ch === 'r' ? '\r' : ch
+  ));
+};